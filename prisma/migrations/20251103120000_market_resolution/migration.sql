@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "market_items" ADD COLUMN     "resolutionSource" TEXT,
+ADD COLUMN     "resolvedAt" TIMESTAMP(3),
+ADD COLUMN     "lastOutcomeCheckAt" TIMESTAMP(3);
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "payouts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "marketId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payouts_marketId_idx" ON "payouts"("marketId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payouts_userId_marketId_key" ON "payouts"("userId", "marketId");
+
+-- AddForeignKey
+ALTER TABLE "payouts" ADD CONSTRAINT "payouts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payouts" ADD CONSTRAINT "payouts_marketId_fkey" FOREIGN KEY ("marketId") REFERENCES "market_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
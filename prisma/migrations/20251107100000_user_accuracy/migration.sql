@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "user_stats" ADD COLUMN     "correctPredictions" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "resolvedPredictions" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "user_stats_accuracy_idx" ON "user_stats"("accuracy");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "swipes" ADD COLUMN     "yesPriceAtSwipe" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "user_stats" ADD COLUMN     "brierScore" DOUBLE PRECISION,
+ADD COLUMN     "calibratedPredictions" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "edge" DOUBLE PRECISION,
+ADD COLUMN     "marketBrierScore" DOUBLE PRECISION;
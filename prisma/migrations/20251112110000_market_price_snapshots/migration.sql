@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "market_price_snapshots" (
+    "id" TEXT NOT NULL,
+    "marketId" TEXT NOT NULL,
+    "yesPrice" DOUBLE PRECISION NOT NULL,
+    "noPrice" DOUBLE PRECISION NOT NULL,
+    "volume24h" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "liquidity" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "capturedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "market_price_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "market_price_snapshots_marketId_capturedAt_idx" ON "market_price_snapshots"("marketId", "capturedAt");
+
+-- CreateIndex
+CREATE INDEX "market_price_snapshots_capturedAt_idx" ON "market_price_snapshots"("capturedAt");
+
+-- AddForeignKey
+ALTER TABLE "market_price_snapshots" ADD CONSTRAINT "market_price_snapshots_marketId_fkey" FOREIGN KEY ("marketId") REFERENCES "market_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
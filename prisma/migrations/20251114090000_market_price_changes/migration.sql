@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "market_items" ADD COLUMN     "priceChange1h" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "priceChange7d" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "volumeVelocity" DOUBLE PRECISION NOT NULL DEFAULT 0;
@@ -0,0 +1,15 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- AlterTable
+ALTER TABLE "market_items" ADD COLUMN     "description" TEXT,
+ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("question", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("description", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "market_search_idx" ON "market_items" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "market_question_trgm_idx" ON "market_items" USING GIN ("question" gin_trgm_ops);
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "market_items" ADD COLUMN     "priceMove24" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill from the derived 24h change
+UPDATE "market_items" SET "priceMove24" = abs("priceChange24");
+
+-- CreateIndex
+CREATE INDEX "market_move_idx" ON "market_items"("priceMove24");
+
+-- CreateIndex
+CREATE INDEX "market_end_date_idx" ON "market_items"("endDate");
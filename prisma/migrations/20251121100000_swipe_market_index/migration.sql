@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "swipes_marketId_direction_idx" ON "swipes"("marketId", "direction");
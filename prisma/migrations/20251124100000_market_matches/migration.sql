@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "market_matches" (
+    "id" TEXT NOT NULL,
+    "primaryId" TEXT NOT NULL,
+    "duplicateId" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "questionScore" DOUBLE PRECISION NOT NULL,
+    "dateScore" DOUBLE PRECISION NOT NULL,
+    "tagScore" DOUBLE PRECISION NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "market_matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "market_matches_duplicateId_idx" ON "market_matches"("duplicateId");
+
+-- CreateIndex
+CREATE INDEX "market_matches_status_idx" ON "market_matches"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "market_matches_primaryId_duplicateId_key" ON "market_matches"("primaryId", "duplicateId");
+
+-- AddForeignKey
+ALTER TABLE "market_matches" ADD CONSTRAINT "market_matches_primaryId_fkey" FOREIGN KEY ("primaryId") REFERENCES "market_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "market_matches" ADD CONSTRAINT "market_matches_duplicateId_fkey" FOREIGN KEY ("duplicateId") REFERENCES "market_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "market_matches" ADD COLUMN     "spread" DOUBLE PRECISION,
+ADD COLUMN     "spreadUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "market_divergences" (
+    "id" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "primaryProb" DOUBLE PRECISION NOT NULL,
+    "duplicateProb" DOUBLE PRECISION NOT NULL,
+    "spread" DOUBLE PRECISION NOT NULL,
+    "capturedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "market_divergences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "market_divergences_matchId_capturedAt_idx" ON "market_divergences"("matchId", "capturedAt");
+
+-- CreateIndex
+CREATE INDEX "market_divergences_capturedAt_idx" ON "market_divergences"("capturedAt");
+
+-- AddForeignKey
+ALTER TABLE "market_divergences" ADD CONSTRAINT "market_divergences_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "market_matches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
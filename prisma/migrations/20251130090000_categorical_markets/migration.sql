@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "market_items" ADD COLUMN     "outcomes" JSONB,
+ADD COLUMN     "winningOutcome" TEXT;
+
+-- AlterTable
+ALTER TABLE "swipes" ADD COLUMN     "outcomeId" TEXT;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "connector_health" ADD COLUMN     "breakerState" TEXT NOT NULL DEFAULT 'CLOSED',
+ADD COLUMN     "forcedOpen" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "nextProbeAt" TIMESTAMP(3),
+ADD COLUMN     "openedAt" TIMESTAMP(3),
+ADD COLUMN     "recentRuns" BOOLEAN[] DEFAULT ARRAY[]::BOOLEAN[];
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "quarantined_markets" (
+    "id" TEXT NOT NULL,
+    "source" "Source" NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "error" TEXT NOT NULL,
+    "occurrences" INTEGER NOT NULL DEFAULT 1,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "quarantined_markets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "quarantined_markets_lastSeenAt_idx" ON "quarantined_markets"("lastSeenAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quarantined_markets_source_externalId_key" ON "quarantined_markets"("source", "externalId");
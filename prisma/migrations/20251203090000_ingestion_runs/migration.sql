@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "ingestion_runs" (
+    "id" TEXT NOT NULL,
+    "connector" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'RUNNING',
+    "since" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+    "fetched" INTEGER NOT NULL DEFAULT 0,
+    "created" INTEGER NOT NULL DEFAULT 0,
+    "updated" INTEGER NOT NULL DEFAULT 0,
+    "unchanged" INTEGER NOT NULL DEFAULT 0,
+    "quarantined" INTEGER NOT NULL DEFAULT 0,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+
+    CONSTRAINT "ingestion_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ingestion_watermarks" (
+    "connector" TEXT NOT NULL,
+    "watermark" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ingestion_watermarks_pkey" PRIMARY KEY ("connector")
+);
+
+-- CreateIndex
+CREATE INDEX "ingestion_runs_connector_startedAt_idx" ON "ingestion_runs"("connector", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "ingestion_runs_startedAt_idx" ON "ingestion_runs"("startedAt");
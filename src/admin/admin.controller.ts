@@ -1,8 +1,15 @@
-import { Controller, Get, Post, Put, Delete, Body, Query, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { Controller, Get, Post, Put, Delete, Body, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { Source } from '@prisma/client';
 import { AdminService } from './admin.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { AdminGuard } from '../auth/guards/admin.guard';
+import { ConnectorName, MARKET_SOURCES, toConnectorName } from '../connectors/sources';
+import {
+  QuarantineListRequestDto,
+  IngestionRunListRequestDto,
+  INGESTION_RUN_STATUSES,
+} from '../common/schemas/admin.schemas';
 
 @ApiTags('admin')
 @Controller('admin')
@@ -48,14 +55,20 @@ export class AdminController {
   @UseGuards(JwtAuthGuard, AdminGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Trigger market data ingestion from connectors (Admin only)' })
+  @ApiQuery({ name: 'connector', required: false, enum: MARKET_SOURCES.map(toConnectorName) })
+  @ApiQuery({ name: 'externalId', required: false, description: 'Refresh just this market (requires connector)' })
+  @ApiQuery({ name: 'force', required: false, type: Boolean })
   @ApiResponse({ status: 200, description: 'Ingestion triggered successfully' })
+  @ApiResponse({ status: 400, description: 'Market refresh without a connector' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Connector not found' })
   async triggerIngestion(
-    @Query('connector') connector?: 'polymarket' | 'kalshi',
+    @Query('connector') connector?: ConnectorName,
     @Query('force') force: boolean = false,
+    @Query('externalId') externalId?: string,
   ) {
-    const result = await this.adminService.triggerIngestion(connector, force);
+    const result = await this.adminService.triggerIngestion(connector, force, externalId);
     
     return {
       success: true,
@@ -63,6 +76,93 @@ export class AdminController {
     };
   }
 
+  @Get('ingestion/runs')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List recent ingestion runs per connector and current watermarks (Admin only)' })
+  @ApiQuery({ name: 'connector', required: false, enum: MARKET_SOURCES.map(toConnectorName) })
+  @ApiQuery({ name: 'status', required: false, enum: INGESTION_RUN_STATUSES })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Ingestion runs retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getIngestionRuns(@Query() query: IngestionRunListRequestDto) {
+    const result = await this.adminService.getIngestionRuns(query);
+
+    return {
+      success: true,
+      ...result,
+    };
+  }
+
+  @Get('connectors')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List registered market connectors, their capabilities and status (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Connectors retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getConnectors() {
+    const connectors = await this.adminService.getConnectors();
+
+    return {
+      success: true,
+      connectors,
+    };
+  }
+
+  @Post('connectors/:name/breaker/open')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Force a connector\'s circuit breaker open until it is reset (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Circuit breaker opened' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Connector not found' })
+  async openCircuitBreaker(@Param('name') name: string) {
+    const health = await this.adminService.openCircuitBreaker(name);
+
+    return {
+      success: true,
+      health,
+    };
+  }
+
+  @Post('connectors/:name/breaker/reset')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Close a connector\'s circuit breaker and clear its failures (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Circuit breaker reset' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Connector not found' })
+  async resetCircuitBreaker(@Param('name') name: string) {
+    const health = await this.adminService.resetCircuitBreaker(name);
+
+    return {
+      success: true,
+      health,
+    };
+  }
+
+  @Get('quarantine')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List vendor payloads that failed validation during ingestion (Admin only)' })
+  @ApiQuery({ name: 'source', required: false, enum: Source })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Quarantined payloads retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getQuarantine(@Query() query: QuarantineListRequestDto) {
+    const result = await this.adminService.getQuarantine(query);
+
+    return {
+      success: true,
+      ...result,
+    };
+  }
+
   @Get('flags')
   @UseGuards(JwtAuthGuard, AdminGuard)
   @ApiBearerAuth()
@@ -1,9 +1,15 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../common/prisma/prisma.service';
 import { RedisService } from '../common/redis/redis.service';
 import { ConnectorsService } from '../connectors/connectors.service';
+import { CircuitBreakerService } from '../connectors/circuit-breaker.service';
+import { QuarantineService } from '../connectors/quarantine.service';
+import { IngestionRunService } from '../connectors/ingestion-run.service';
+import { QuarantineListRequestDto, IngestionRunListRequestDto } from '../common/schemas/admin.schemas';
+import { ConnectorName, isConnectorName } from '../connectors/sources';
 import { RankingService } from '../ranking/ranking.service';
 import { RealtimeService } from '../realtime/realtime.service';
+import { connectorPullJobId } from '../jobs/processors/ingestion.processor';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
 
@@ -15,6 +21,9 @@ export class AdminService {
     private prisma: PrismaService,
     private redis: RedisService,
     private connectorsService: ConnectorsService,
+    private circuitBreaker: CircuitBreakerService,
+    private quarantineService: QuarantineService,
+    private ingestionRuns: IngestionRunService,
     private rankingService: RankingService,
     private realtimeService: RealtimeService,
     @InjectQueue('ingestion') private ingestionQueue: Queue,
@@ -415,20 +424,89 @@ export class AdminService {
   }
 
   /**
-   * Trigger market data ingestion from connectors
+   * Registered connectors with capabilities and enablement
    */
-  async triggerIngestion(connector?: 'polymarket' | 'kalshi', force: boolean = false): Promise<{
+  async getConnectors() {
+    const [registry, breakers] = await Promise.all([
+      this.connectorsService.getConnectorRegistry(),
+      this.circuitBreaker.getStates(),
+    ]);
+
+    return registry.map(connector => {
+      const breaker = breakers.find(record => record.connector === connector.name);
+      return {
+        ...connector,
+        status: breaker?.status ?? 'unknown',
+        breaker: {
+          state: breaker?.breakerState ?? 'CLOSED',
+          forcedOpen: breaker?.forcedOpen ?? false,
+          consecutiveFailures: breaker?.errorCount ?? 0,
+          openedAt: breaker?.openedAt?.toISOString(),
+          nextProbeAt: breaker?.nextProbeAt?.toISOString(),
+        },
+      };
+    });
+  }
+
+  /**
+   * Hold a connector's circuit breaker open so ingestion skips it until reset
+   */
+  async openCircuitBreaker(name: string) {
+    return this.circuitBreaker.forceOpen(this.getConnectorName(name));
+  }
+
+  /**
+   * Close a connector's circuit breaker and clear its failure history
+   */
+  async resetCircuitBreaker(name: string) {
+    return this.circuitBreaker.reset(this.getConnectorName(name));
+  }
+
+  /**
+   * Ingestion run history, newest first, with each connector's watermark
+   */
+  async getIngestionRuns(query: IngestionRunListRequestDto) {
+    return this.ingestionRuns.listRuns(query);
+  }
+
+  /**
+   * Vendor payloads rejected by schema validation, most recently seen first
+   */
+  async getQuarantine(query: QuarantineListRequestDto) {
+    return this.quarantineService.listQuarantined(query);
+  }
+
+  private getConnectorName(name: string): ConnectorName {
+    if (!isConnectorName(name) || !this.connectorsService.getConnector(name)) {
+      throw new NotFoundException('Connector not found');
+    }
+    return name;
+  }
+
+  /**
+   * Trigger market data ingestion from connectors: all of them, one, or a single
+   * market of one
+   */
+  async triggerIngestion(connector?: string, force: boolean = false, externalId?: string): Promise<{
     success: boolean;
     message: string;
     jobId: string;
     connector?: string;
+    externalId?: string;
   }> {
+    if (externalId && !connector) {
+      throw new BadRequestException('Refreshing a market requires a connector');
+    }
+    const name = connector ? this.getConnectorName(connector) : undefined;
+    const target = `${externalId ? ` market ${externalId} from` : ' for'} ${name ?? 'all connectors'}`;
+
     try {
-      this.logger.log(`Triggering ingestion${connector ? ` for ${connector}` : ' for all connectors'}`);
+      this.logger.log(`Triggering ingestion${target}`);
 
-      // Add job to ingestion queue
+      // Add job to ingestion queue; a connector-wide pull joins one already queued or running
       const job = await this.ingestionQueue.add('pull', {
-        connector,
+        connector: name,
+        externalId,
         force,
       }, {
         priority: 1, // High priority for manual triggers
@@ -437,15 +515,21 @@ export class AdminService {
           type: 'exponential',
           delay: 2000,
         },
+        ...(name && !externalId && {
+          jobId: connectorPullJobId(name),
+          removeOnComplete: true,
+          removeOnFail: true,
+        }),
       });
 
       this.logger.log(`Ingestion job queued with ID: ${job.id}`);
 
       return {
         success: true,
-        message: `Ingestion triggered successfully${connector ? ` for ${connector}` : ''}`,
+        message: `Ingestion triggered successfully${name ? target : ''}`,
         jobId: job.id.toString(),
-        connector,
+        connector: name,
+        externalId,
       };
     } catch (error) {
       this.logger.error('Failed to trigger ingestion:', error);
@@ -454,6 +538,7 @@ export class AdminService {
         message: 'Failed to trigger ingestion',
         jobId: '',
         connector,
+        externalId,
       };
     }
   }
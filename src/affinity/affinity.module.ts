@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { AffinityService } from './affinity.service';
+import { PrismaModule } from '../common/prisma/prisma.module';
+import { RedisModule } from '../common/redis/redis.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    RedisModule,
+  ],
+  providers: [AffinityService],
+  exports: [AffinityService],
+})
+export class AffinityModule {}
@@ -0,0 +1,204 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { RedisService } from '../common/redis/redis.service';
+
+export interface AffinityProfile {
+  tags: Record<string, number>;
+  sources: Record<string, number>;
+  updatedAt: number; // epoch ms the weights were last decayed to
+}
+
+export interface AffinityCandidate {
+  id: string;
+  tags: string[];
+  source: string;
+  confidence: number;
+  trendScore: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PROFILE_TTL = 30 * 24 * 60 * 60; // 30 days, rebuilt from swipes on miss
+const PROFILE_LOOKBACK_DAYS = 90; // older swipes have decayed to noise
+const MIN_WEIGHT = 0.01;
+
+@Injectable()
+export class AffinityService {
+  private readonly logger = new Logger(AffinityService.name);
+  private readonly halfLifeMs: number;
+  // Share of the feed score taken by the user's affinity instead of global rank
+  private readonly personalizationWeight: number;
+  // Share of each page reserved for topics the user hasn't engaged with
+  private readonly explorationShare: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private configService: ConfigService,
+  ) {
+    this.halfLifeMs = Number(this.configService.get('AFFINITY_HALF_LIFE_DAYS', 14)) * DAY_MS;
+    this.personalizationWeight = Number(this.configService.get('FEED_PERSONALIZATION_WEIGHT', 0.4));
+    this.explorationShare = Number(this.configService.get('FEED_EXPLORATION_SHARE', 0.2));
+  }
+
+  /**
+   * Get a user's affinity profile, rebuilding it from swipes when not cached
+   */
+  async getProfile(userId: string): Promise<AffinityProfile | null> {
+    try {
+      const cached = await this.redis.getJson<AffinityProfile>(`user:${userId}:affinity`);
+      if (cached) {
+        return this.decay(cached, Date.now());
+      }
+
+      return await this.rebuildProfile(userId);
+    } catch (error) {
+      this.logger.error(`Failed to get affinity profile for user ${userId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Fold a new swipe into the user's profile
+   */
+  async recordSwipe(userId: string, market: { tags: string[]; source: string }): Promise<void> {
+    const key = `user:${userId}:affinity`;
+
+    try {
+      const cached = await this.redis.getJson<AffinityProfile>(key);
+      if (!cached) {
+        // The rebuild reads the swipe that was just committed
+        await this.rebuildProfile(userId);
+        return;
+      }
+
+      const profile = this.applySwipe(this.decay(cached, Date.now()), market);
+      await this.redis.setJson(key, profile, PROFILE_TTL);
+    } catch (error) {
+      this.logger.warn(`Failed to update affinity profile for user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Re-order one page of ranked candidates for a user. The best blend of global score
+   * and affinity leads; the exploration share keeps the best-ranked markets outside
+   * the user's usual topics at their rank positions. Every candidate is kept, so
+   * paging through the ranked order never skips a market
+   */
+  orderForUser<T extends AffinityCandidate>(
+    profile: AffinityProfile | null,
+    candidates: T[],
+  ): T[] {
+    if (!profile) {
+      return candidates;
+    }
+
+    const scored = candidates.map((market, rank) => {
+      const affinity = this.scoreMarket(profile, market);
+      const base = 0.5 * market.confidence + 0.5 * market.trendScore;
+
+      return {
+        market,
+        rank,
+        affinity,
+        score: (1 - this.personalizationWeight) * base + this.personalizationWeight * affinity,
+      };
+    });
+
+    const exploreSlots = Math.round(candidates.length * this.explorationShare);
+
+    const explore = scored
+      .filter(entry => entry.affinity === 0)
+      .slice(0, exploreSlots); // candidates are already in rank order
+
+    const pinned = new Map(explore.map(entry => [entry.rank, entry.market]));
+    const exploit = scored
+      .filter(entry => !pinned.has(entry.rank))
+      .sort((a, b) => b.score - a.score);
+
+    let next = 0;
+    return candidates.map((_, position) => pinned.get(position) ?? exploit[next++].market);
+  }
+
+  /**
+   * Affinity of a market for a profile, 0..1
+   */
+  scoreMarket(profile: AffinityProfile, market: { tags: string[]; source: string }): number {
+    const maxTag = Math.max(0, ...Object.values(profile.tags));
+    const maxSource = Math.max(0, ...Object.values(profile.sources));
+
+    const tagWeight = market.tags.reduce((sum, tag) => sum + (profile.tags[tag] || 0), 0);
+    const tagAffinity = maxTag > 0 ? Math.min(1, tagWeight / maxTag) : 0;
+    const sourceAffinity = maxSource > 0 ? (profile.sources[market.source] || 0) / maxSource : 0;
+
+    return 0.7 * tagAffinity + 0.3 * sourceAffinity;
+  }
+
+  /**
+   * Recompute a profile from the user's recent swipes and cache it
+   */
+  private async rebuildProfile(userId: string): Promise<AffinityProfile | null> {
+    const swipes = await this.prisma.swipe.findMany({
+      where: {
+        userId,
+        createdAt: { gte: new Date(Date.now() - PROFILE_LOOKBACK_DAYS * DAY_MS) },
+      },
+      include: {
+        market: {
+          select: { tags: true, source: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (swipes.length === 0) {
+      return null;
+    }
+
+    let profile: AffinityProfile = { tags: {}, sources: {}, updatedAt: swipes[0].createdAt.getTime() };
+    for (const swipe of swipes) {
+      profile = this.applySwipe(this.decay(profile, swipe.createdAt.getTime()), swipe.market);
+    }
+    profile = this.decay(profile, Date.now());
+
+    await this.redis.setJson(`user:${userId}:affinity`, profile, PROFILE_TTL);
+
+    return profile;
+  }
+
+  /**
+   * Add one unit of interest, split across the market's tags. Either direction
+   * counts: LEFT is a NO call on the topic, not a dislike of it
+   */
+  private applySwipe(profile: AffinityProfile, market: { tags: string[]; source: string }): AffinityProfile {
+    const tags = { ...profile.tags };
+    const sources = { ...profile.sources };
+
+    for (const tag of market.tags) {
+      tags[tag] = (tags[tag] || 0) + 1 / market.tags.length;
+    }
+    sources[market.source] = (sources[market.source] || 0) + 1;
+
+    return { ...profile, tags, sources };
+  }
+
+  /**
+   * Exponentially decay all weights to the given time, dropping negligible ones
+   */
+  private decay(profile: AffinityProfile, at: number): AffinityProfile {
+    const elapsed = Math.max(0, at - profile.updatedAt);
+    const factor = Math.pow(0.5, elapsed / this.halfLifeMs);
+
+    const scale = (weights: Record<string, number>) => Object.fromEntries(
+      Object.entries(weights)
+        .map(([key, weight]): [string, number] => [key, weight * factor])
+        .filter(([, weight]) => weight >= MIN_WEIGHT),
+    );
+
+    return {
+      tags: scale(profile.tags),
+      sources: scale(profile.sources),
+      updatedAt: Math.max(at, profile.updatedAt),
+    };
+  }
+}
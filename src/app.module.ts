@@ -14,6 +14,7 @@ import { InsightsModule } from './insights/insights.module';
 import { SwipesModule } from './swipes/swipes.module';
 import { ExchangesModule } from './exchanges/exchanges.module';
 import { ResolutionModule } from './resolution/resolution.module';
+import { HistoryModule } from './history/history.module';
 import { RealtimeModule } from './realtime/realtime.module';
 import { AdminModule } from './admin/admin.module';
 import { HealthModule } from './common/health/health.module';
@@ -52,6 +53,7 @@ import { RateLimitInterceptor } from './common/interceptors/rate-limit.intercept
     SwipesModule,
     ExchangesModule,
     ResolutionModule,
+    HistoryModule,
     RealtimeModule,
     AdminModule,
     JobsModule,
@@ -1,30 +1,63 @@
 import { z } from 'zod';
+import { Source } from '@prisma/client';
 import { createZodDto } from 'nestjs-zod';
 
+// One outcome of a categorical market
+export const MarketOutcomeOptionSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  price: z.number().min(0).max(1),
+});
+
 // MarketItem DTO Schema
 export const MarketItemSchema = z.object({
   id: z.string().cuid(),
-  source: z.enum(['POLYMARKET', 'KALSHI']),
+  source: z.nativeEnum(Source),
   question: z.string().min(1).max(500),
   yesPrice: z.number().min(0).max(1),
   noPrice: z.number().min(0).max(1),
   endDate: z.string().datetime(),
   confidence: z.number().min(0).max(1),
   trendScore: z.number().min(0).max(1),
+  priceChange1h: z.number().optional(), // YES price change in points
+  priceChange24: z.number().optional(),
   tags: z.array(z.string()),
   insight: z.string().optional(),
+  outcomes: z.array(MarketOutcomeOptionSchema).optional(), // categorical markets; yesPrice is the leading outcome's
   exchanges: z.array(z.object({
     name: z.string(),
     url: z.string().url(),
+    oddsYes: z.number().optional(), // every exchange's odds once matched markets are merged
+    oddsNo: z.number().optional(),
+    icon: z.string().optional(),
   })),
 });
 
-// Feed Request DTO Schema
+// Feed sort modes; every mode except 'ranked' pages by a keyset on its sort column
+export const FEED_SORTS = ['ranked', 'closing_soon', 'movers', 'newest'] as const;
+
+// Feed Request DTO Schema (query-string values are coerced)
 export const FeedRequestSchema = z.object({
   cursor: z.string().optional(),
-  limit: z.number().int().min(1).max(20).default(5),
-  tags: z.array(z.string()).optional(),
-});
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+  tags: z.union([z.string(), z.array(z.string())])
+    .transform(tags => (Array.isArray(tags) ? tags : tags.split(',')).map(tag => tag.trim()).filter(Boolean))
+    .optional(),
+  source: z.nativeEnum(Source).optional(),
+  endsWithinHours: z.coerce.number().positive().optional(), // e.g. 24 for "closing in 24h"
+  endsAfter: z.string().datetime().optional(),
+  endsBefore: z.string().datetime().optional(),
+  minProbability: z.coerce.number().min(0).max(1).optional(), // on yesPrice
+  maxProbability: z.coerce.number().min(0).max(1).optional(),
+  minLiquidity: z.coerce.number().min(0).optional(),
+  minVolume: z.coerce.number().min(0).optional(), // 24h volume
+  sort: z.enum(FEED_SORTS).default('ranked'),
+}).refine(
+  request => request.minProbability === undefined ||
+    request.maxProbability === undefined ||
+    request.minProbability <= request.maxProbability,
+  { message: 'minProbability must not exceed maxProbability', path: ['minProbability'] },
+);
 
 // Feed Response DTO Schema
 export const FeedResponseSchema = z.object({
@@ -38,6 +71,7 @@ export const SwipeRequestSchema = z.object({
   idempotencyKey: z.string().optional(), // Idempotency key
   marketId: z.string().cuid(),
   direction: z.enum(['LEFT', 'RIGHT']),
+  outcomeId: z.string().min(1).optional(), // required for categorical markets
   swipeToken: z.string().optional(), // Anti-replay token
 });
 
@@ -118,8 +152,10 @@ export class WalletVerifyDto extends createZodDto(WalletVerifySchema) {}
 export class AuthResponseDto extends createZodDto(AuthResponseSchema) {}
 
 // Type exports for TypeScript
+export type MarketOutcomeOption = z.infer<typeof MarketOutcomeOptionSchema>;
 export type MarketItem = z.infer<typeof MarketItemSchema>;
 export type FeedRequest = z.infer<typeof FeedRequestSchema>;
+export type FeedRequestInput = z.input<typeof FeedRequestSchema>;
 export type FeedResponse = z.infer<typeof FeedResponseSchema>;
 export type SwipeRequest = z.infer<typeof SwipeRequestSchema>;
 export type SwipeResponse = z.infer<typeof SwipeResponseSchema>;
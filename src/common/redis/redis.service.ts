@@ -2,6 +2,28 @@ import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/commo
 import { ConfigService } from '@nestjs/config';
 import Redis from 'ioredis';
 
+// Refill the bucket for the time since the last call (Redis clock, shared by all
+// instances), then take a token or return the wait in ms until there is one
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2]) / 1000
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(bucket[1]) or capacity
+local ts = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+local wait = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+else
+  wait = math.ceil((1 - tokens) / rate)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+redis.call('PEXPIRE', KEYS[1], ARGV[3])
+return wait
+`;
+
 @Injectable()
 export class RedisService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(RedisService.name);
@@ -107,6 +129,11 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return this.client.zadd(key, score, member);
   }
 
+  async zaddMany(key: string, entries: Array<[score: number, member: string]>): Promise<number> {
+    if (entries.length === 0) return 0;
+    return this.client.zadd(key, ...entries.flat());
+  }
+
   async zrange(key: string, start: number, stop: number, withScores = false): Promise<string[]> {
     return this.client.zrange(key, start, stop, withScores ? 'WITHSCORES' : undefined);
   }
@@ -115,6 +142,10 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return this.client.zrevrange(key, start, stop, withScores ? 'WITHSCORES' : undefined);
   }
 
+  async zrangebyscore(key: string, min: number, max: number, offset = 0, count = -1): Promise<string[]> {
+    return this.client.zrangebyscore(key, min, max, 'LIMIT', offset, count);
+  }
+
   async zrem(key: string, ...members: string[]): Promise<number> {
     return this.client.zrem(key, ...members);
   }
@@ -123,6 +154,23 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return this.client.zcard(key);
   }
 
+  // Set operations
+  async sadd(key: string, ...members: string[]): Promise<number> {
+    return this.client.sadd(key, ...members);
+  }
+
+  async srem(key: string, ...members: string[]): Promise<number> {
+    return this.client.srem(key, ...members);
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return this.client.smembers(key);
+  }
+
+  async sismember(key: string, member: string): Promise<boolean> {
+    return (await this.client.sismember(key, member)) === 1;
+  }
+
   // Hash operations
   async hget(key: string, field: string): Promise<string | null> {
     return this.client.hget(key, field);
@@ -167,6 +215,17 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return current <= options.limit;
   }
 
+  /**
+   * Take a token from a bucket holding up to `capacity` tokens that refills at
+   * `refillPerSecond`. Returns 0 when a token was taken, otherwise the milliseconds
+   * until one is available. Runs as one script so every instance shares the bucket.
+   */
+  async takeToken(key: string, capacity: number, refillPerSecond: number): Promise<number> {
+    const ttlMs = Math.ceil((capacity / refillPerSecond) * 1000) + 1000;
+    const wait = await this.client.eval(TOKEN_BUCKET_SCRIPT, 1, key, capacity, refillPerSecond, ttlMs);
+    return Number(wait);
+  }
+
   // Pub/Sub
   async publish(channel: string, message: string): Promise<number> {
     return this.publisher.publish(channel, message);
@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { Source } from '@prisma/client';
+import { BREAKER_STATES } from '../../connectors/types';
+import { isConnectorName } from '../../connectors/sources';
 
 export const FeatureFlagSchema = z.object({
   key: z.string().min(1, 'Feature flag key is required'),
@@ -22,6 +25,7 @@ export const ConnectorHealthSchema = z.object({
   lastSuccess: z.string().datetime().optional(),
   lastError: z.string().optional(),
   errorCount: z.number(),
+  breakerState: z.enum(BREAKER_STATES).optional(),
   updatedAt: z.string().datetime(),
 });
 
@@ -57,8 +61,32 @@ export const AdminHealthResponseSchema = z.object({
   }),
 });
 
+export const MARKET_MATCH_STATUSES = ['PENDING', 'CONFIRMED', 'REJECTED'] as const;
+
+export const MarketMatchListRequestSchema = z.object({
+  status: z.enum(MARKET_MATCH_STATUSES).default('PENDING'),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const QuarantineListRequestSchema = z.object({
+  source: z.nativeEnum(Source).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const INGESTION_RUN_STATUSES = ['RUNNING', 'SUCCEEDED', 'FAILED', 'SKIPPED'] as const;
+
+export const IngestionRunListRequestSchema = z.object({
+  connector: z.string().refine(isConnectorName, 'Unknown connector').optional(),
+  status: z.enum(INGESTION_RUN_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
 export type FeatureFlagDto = z.infer<typeof FeatureFlagSchema>;
 export type FeatureFlagUpdateDto = z.infer<typeof FeatureFlagUpdateSchema>;
 export type ReindexRequestDto = z.infer<typeof ReindexRequestSchema>;
 export type ConnectorHealthDto = z.infer<typeof ConnectorHealthSchema>;
 export type AdminHealthResponseDto = z.infer<typeof AdminHealthResponseSchema>;
+export type MarketMatchStatus = typeof MARKET_MATCH_STATUSES[number];
+export type MarketMatchListRequestDto = z.input<typeof MarketMatchListRequestSchema>;
+export type QuarantineListRequestDto = z.input<typeof QuarantineListRequestSchema>;
+export type IngestionRunListRequestDto = z.input<typeof IngestionRunListRequestSchema>;
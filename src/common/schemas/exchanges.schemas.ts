@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+export const MarketPairRequestSchema = z.object({
+  primaryId: z.string().min(1, 'primaryId is required'),
+  duplicateId: z.string().min(1, 'duplicateId is required'),
+}).refine(pair => pair.primaryId !== pair.duplicateId, {
+  message: 'A market cannot be paired with itself',
+  path: ['duplicateId'],
+});
+
+export const DivergenceListRequestSchema = z.object({
+  minSpread: z.coerce.number().min(0).max(1).default(0), // absolute gap in probability
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const DivergenceHistoryRequestSchema = z.object({
+  hours: z.coerce.number().int().min(1).max(24 * 90).default(24 * 7),
+});
+
+export const DivergenceSchema = z.object({
+  matchId: z.string(),
+  question: z.string(),
+  primary: z.object({
+    marketId: z.string(),
+    source: z.string(),
+    probability: z.number(),
+  }),
+  duplicate: z.object({
+    marketId: z.string(),
+    source: z.string(),
+    probability: z.number(),
+  }),
+  spread: z.number(),
+  updatedAt: z.string().datetime().nullable(),
+});
+
+export type MarketPairRequestDto = z.input<typeof MarketPairRequestSchema>;
+export type DivergenceListRequestDto = z.input<typeof DivergenceListRequestSchema>;
+export type DivergenceHistoryRequestDto = z.input<typeof DivergenceHistoryRequestSchema>;
+export type DivergenceDto = z.infer<typeof DivergenceSchema>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { Source } from '@prisma/client';
 
 export const FeedRequestSchema = z.object({
   cursor: z.string().optional(),
@@ -8,7 +9,7 @@ export const FeedRequestSchema = z.object({
 
 export const MarketItemSchema = z.object({
   id: z.string(),
-  source: z.enum(['POLYMARKET', 'KALSHI']),
+  source: z.nativeEnum(Source),
   externalId: z.string(),
   question: z.string(),
   yesPrice: z.number(),
@@ -21,6 +22,11 @@ export const MarketItemSchema = z.object({
   confidence: z.number(),
   insight: z.string().optional(),
   tags: z.array(z.string()),
+  outcomes: z.array(z.object({
+    id: z.string(),
+    label: z.string(),
+    price: z.number(),
+  })).optional(),
   exchanges: z.array(z.object({
     name: z.string(),
     url: z.string().url(),
@@ -28,7 +34,8 @@ export const MarketItemSchema = z.object({
     oddsNo: z.number().optional(),
     icon: z.string().optional(),
   })),
-  outcome: z.enum(['YES', 'NO', 'UNKNOWN']),
+  outcome: z.enum(['YES', 'NO', 'VOID', 'UNKNOWN', 'RESOLVED']),
+  winningOutcome: z.string().optional(),
   eligible: z.boolean(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
@@ -45,6 +52,7 @@ export const SwipeRequestSchema = z.object({
   direction: z.enum(['LEFT', 'RIGHT'], {
     errorMap: () => ({ message: 'Direction must be LEFT or RIGHT' }),
   }),
+  outcomeId: z.string().min(1).optional(), // required for categorical markets
   idempotencyKey: z.string().optional(),
 });
 
@@ -55,8 +63,56 @@ export const SwipeResponseSchema = z.object({
   bestStreak: z.number(),
 });
 
+export const MarketHistoryRequestSchema = z.object({
+  range: z.enum(['1d', '7d', '30d', '90d', '1y']).default('7d'),
+  interval: z.enum(['5m', '15m', '1h', '4h', '1d']).default('1h'),
+});
+
+export const MarketHistoryPointSchema = z.object({
+  t: z.string().datetime(),
+  yesPrice: z.number(),
+  noPrice: z.number(),
+  volume24h: z.number(),
+});
+
+export const MarketHistoryResponseSchema = z.object({
+  marketId: z.string(),
+  range: z.string(),
+  interval: z.string(),
+  points: z.array(MarketHistoryPointSchema),
+});
+
+export const MarketSearchRequestSchema = z.object({
+  q: z.string().trim().min(2, 'Query must be at least 2 characters').max(200),
+  source: z.nativeEnum(Source).optional(),
+  // Accepts repeated params or a comma-separated list
+  tags: z.union([z.string(), z.array(z.string())])
+    .transform(tags => (Array.isArray(tags) ? tags : tags.split(',')).map(tag => tag.trim()).filter(Boolean))
+    .optional(),
+  endsAfter: z.string().datetime().optional(),
+  endsBefore: z.string().datetime().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const MoversRequestSchema = z.object({
+  window: z.enum(['1h', '24h']).default('24h'),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export const ClosingSoonRequestSchema = z.object({
+  withinHours: z.coerce.number().positive().max(168).default(24), // carousel covers a week
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
 export type FeedRequestDto = z.infer<typeof FeedRequestSchema>;
 export type MarketItemDto = z.infer<typeof MarketItemSchema>;
 export type FeedResponseDto = z.infer<typeof FeedResponseSchema>;
 export type SwipeRequestDto = z.infer<typeof SwipeRequestSchema>;
 export type SwipeResponseDto = z.infer<typeof SwipeResponseSchema>;
+export type MarketHistoryRequestDto = z.infer<typeof MarketHistoryRequestSchema>;
+export type MarketHistoryPointDto = z.infer<typeof MarketHistoryPointSchema>;
+export type MarketHistoryResponseDto = z.infer<typeof MarketHistoryResponseSchema>;
+export type MarketSearchRequestDto = z.input<typeof MarketSearchRequestSchema>;
+export type MoversRequestDto = z.input<typeof MoversRequestSchema>;
+export type ClosingSoonRequestDto = z.input<typeof ClosingSoonRequestSchema>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { Source } from '@prisma/client';
 
 export const UserProfileSchema = z.object({
   id: z.string(),
@@ -18,6 +19,11 @@ export const UserStatsSchema = z.object({
   streak: z.number(),
   bestStreak: z.number(),
   accuracy: z.number(),
+  resolvedPredictions: z.number(),
+  accuracyRanked: z.boolean(),
+  brierScore: z.number().nullable(),
+  marketBrierScore: z.number().nullable(),
+  edge: z.number().nullable(),
   lastActiveAt: z.string().datetime().optional(),
 });
 
@@ -36,12 +42,14 @@ export const SwipeHistorySchema = z.object({
   id: z.string(),
   marketId: z.string(),
   direction: z.enum(['LEFT', 'RIGHT']),
+  outcomeId: z.string().optional(),
   createdAt: z.string().datetime(),
   market: z.object({
     id: z.string(),
     question: z.string(),
-    source: z.enum(['POLYMARKET', 'KALSHI']),
-    outcome: z.enum(['YES', 'NO', 'UNKNOWN']),
+    source: z.nativeEnum(Source),
+    outcome: z.enum(['YES', 'NO', 'VOID', 'UNKNOWN', 'RESOLVED']),
+    winningOutcome: z.string().optional(),
   }),
 });
 
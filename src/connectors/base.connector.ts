@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { z } from 'zod';
 
 // Extend AxiosRequestConfig to include metadata
 interface ExtendedAxiosRequestConfig extends InternalAxiosRequestConfig {
@@ -9,7 +10,23 @@ interface ExtendedAxiosRequestConfig extends InternalAxiosRequestConfig {
     retryCount?: number;
   };
 }
-import { Connector, ConnectorConfig, ConnectorHealth, ConnectorMetrics, ConnectorError } from './types';
+import {
+  Connector,
+  ConnectorConfig,
+  ConnectorHealth,
+  ConnectorMetrics,
+  ConnectorError,
+  MarketPage,
+  RejectedPayload,
+} from './types';
+import { ConnectorName } from './sources';
+import { RedisService } from '../common/redis/redis.service';
+
+// Vendor cursors go stale; don't resume from a checkpoint older than this
+const PAGINATION_CHECKPOINT_TTL = 6 * 60 * 60; // 6 hours
+
+// Don't let a bogus Retry-After header stall ingestion for longer than this
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
 
 @Injectable()
 export abstract class BaseConnector {
@@ -20,13 +37,19 @@ export abstract class BaseConnector {
     successfulRequests: 0,
     failedRequests: 0,
     averageLatency: 0,
+    throttledRequests: 0,
+    throttledMs: 0,
+    rateLimitedResponses: 0,
     lastUpdated: new Date(),
   };
 
-  abstract readonly name: 'polymarket' | 'kalshi';
+  abstract readonly name: ConnectorName;
   abstract readonly config: ConnectorConfig;
 
-  constructor(protected configService: ConfigService) {
+  constructor(
+    protected configService: ConfigService,
+    protected redis: RedisService,
+  ) {
     // Initialize HTTP client after config is set by subclasses
   }
 
@@ -46,7 +69,8 @@ export abstract class BaseConnector {
   private setupInterceptors() {
     // Request interceptor for logging and rate limiting
     this.httpClient.interceptors.request.use(
-      (config) => {
+      async (config) => {
+        await this.acquireRateLimitToken();
         this.metrics.totalRequests++;
         return config;
       },
@@ -68,10 +92,19 @@ export abstract class BaseConnector {
         this.updateLatencyMetrics((error.config as ExtendedAxiosRequestConfig)?.metadata?.startTime);
         
         const connectorError = this.handleError(error);
-        
+        if (connectorError.code === 'RATE_LIMIT') {
+          this.metrics.rateLimitedResponses++;
+        }
+
+        // Hold every instance back for as long as the vendor asked
+        const retryAfterMs = this.getRetryAfterMs(error);
+        if (retryAfterMs !== undefined) {
+          await this.pauseRequests(retryAfterMs);
+        }
+
         // Retry logic for retryable errors
         if (connectorError.retryable && this.shouldRetry(error)) {
-          return this.retryRequest(error.config);
+          return this.retryRequest(error.config, retryAfterMs);
         }
         
         return Promise.reject(connectorError);
@@ -147,9 +180,9 @@ export abstract class BaseConnector {
     return retryCount < this.config.retry.maxRetries;
   }
 
-  private async retryRequest(config: any): Promise<any> {
+  private async retryRequest(config: any, retryAfterMs?: number): Promise<any> {
     const retryCount = config.metadata?.retryCount || 0;
-    const delay = this.config.retry.backoffMs * Math.pow(2, retryCount);
+    const delay = retryAfterMs ?? this.config.retry.backoffMs * Math.pow(2, retryCount);
     
     this.logger.warn(
       `Retrying request to ${config.url} (attempt ${retryCount + 1}/${this.config.retry.maxRetries}) after ${delay}ms`,
@@ -166,6 +199,180 @@ export abstract class BaseConnector {
     return this.httpClient.request(config);
   }
 
+  /**
+   * Wait for a token from the connector's bucket (burstLimit tokens, refilled at
+   * requestsPerMinute) and for any Retry-After pause. The bucket lives in Redis so
+   * every instance shares it; requests go out unpaced if Redis is unavailable.
+   */
+  private async acquireRateLimitToken(): Promise<void> {
+    const { requestsPerMinute, burstLimit } = this.config.rateLimit;
+    let waited = 0;
+
+    try {
+      for (;;) {
+        const pausedUntil = Number(await this.redis.get(`connector:${this.name}:retry_after`));
+        const wait = pausedUntil > Date.now()
+          ? pausedUntil - Date.now()
+          : await this.redis.takeToken(`connector:${this.name}:bucket`, burstLimit, requestsPerMinute / 60);
+
+        if (wait <= 0) {
+          break;
+        }
+
+        waited += wait;
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+    } catch (error) {
+      this.logger.warn(`Rate limiter unavailable for ${this.name}, sending request unpaced: ${error.message}`);
+    }
+
+    if (waited > 0) {
+      this.metrics.throttledRequests++;
+      this.metrics.throttledMs += waited;
+    }
+  }
+
+  /**
+   * Read Retry-After (seconds or an HTTP date) from a 429 or 503 response
+   */
+  private getRetryAfterMs(error: AxiosError): number | undefined {
+    const status = error.response?.status;
+    const header = error.response?.headers?.['retry-after'];
+    if ((status !== 429 && status !== 503) || !header) {
+      return undefined;
+    }
+
+    const seconds = Number(header);
+    const ms = Number.isNaN(seconds) ? Date.parse(String(header)) - Date.now() : seconds * 1000;
+    if (Number.isNaN(ms)) {
+      return undefined;
+    }
+
+    return Math.min(Math.max(ms, 0), MAX_RETRY_AFTER_MS);
+  }
+
+  private async pauseRequests(ms: number): Promise<void> {
+    if (ms <= 0) {
+      return;
+    }
+
+    try {
+      await this.redis.set(`connector:${this.name}:retry_after`, String(Date.now() + ms), Math.ceil(ms / 1000));
+    } catch (error) {
+      this.logger.warn(`Failed to record Retry-After pause for ${this.name}:`, error);
+    }
+  }
+
+  /**
+   * Follow a vendor's cursor pagination until the last page or the page cap.
+   * Requests are paced by the rate limiter. When a run stops early (page cap or
+   * a failed page) the cursor is checkpointed so the next run resumes there.
+   */
+  protected async fetchAllPages<T>(
+    fetchPage: (cursor?: string) => Promise<MarketPage<T>>,
+  ): Promise<T[]> {
+    const { maxPages } = this.config.pagination;
+    const items: T[] = [];
+
+    let cursor = await this.getPaginationCheckpoint();
+    if (cursor) {
+      this.logger.log(`Resuming ${this.name} pagination from checkpoint cursor ${cursor}`);
+    }
+
+    for (let page = 1; page <= maxPages; page++) {
+      let result: MarketPage<T>;
+      try {
+        result = await fetchPage(cursor);
+      } catch (error) {
+        if (items.length === 0) {
+          // A stale checkpoint cursor is rejected outright; start over next run
+          if (cursor && !(error as ConnectorError).retryable) {
+            await this.setPaginationCheckpoint(undefined);
+          }
+          throw error;
+        }
+
+        this.logger.warn(
+          `Page ${page} from ${this.name} failed (${error.message}), keeping ${items.length} markets and checkpointing cursor`,
+        );
+        await this.setPaginationCheckpoint(cursor);
+        return items;
+      }
+
+      items.push(...result.items);
+
+      if (!result.cursor || result.cursor === cursor || result.items.length === 0) {
+        await this.setPaginationCheckpoint(undefined);
+        return items;
+      }
+
+      cursor = result.cursor;
+    }
+
+    this.logger.warn(
+      `Reached page cap (${maxPages}) for ${this.name} with ${items.length} markets, next run continues from cursor ${cursor}`,
+    );
+    await this.setPaginationCheckpoint(cursor);
+    return items;
+  }
+
+  private async getPaginationCheckpoint(): Promise<string | undefined> {
+    try {
+      return (await this.redis.get(`connector:${this.name}:cursor`)) || undefined;
+    } catch (error) {
+      this.logger.warn(`Failed to read pagination checkpoint for ${this.name}:`, error);
+      return undefined;
+    }
+  }
+
+  private async setPaginationCheckpoint(cursor?: string): Promise<void> {
+    const key = `connector:${this.name}:cursor`;
+    try {
+      if (cursor) {
+        await this.redis.set(key, cursor, PAGINATION_CHECKPOINT_TTL);
+      } else {
+        await this.redis.del(key);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to update pagination checkpoint for ${this.name}:`, error);
+    }
+  }
+
+  /**
+   * Split vendor items into those matching the schema and rejects carrying the
+   * validation error. Rejects go back to the caller so each fetch quarantines its own
+   */
+  protected validatePayloads<T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    items: unknown[],
+  ): { valid: T[]; rejected: RejectedPayload[] } {
+    const valid: T[] = [];
+    const rejected: RejectedPayload[] = [];
+
+    for (const item of items) {
+      const parsed = schema.safeParse(item);
+      if (parsed.success) {
+        valid.push(parsed.data);
+        continue;
+      }
+
+      const id = (item as { id?: unknown } | null)?.id;
+      rejected.push({
+        externalId: typeof id === 'string' || typeof id === 'number' ? String(id) : undefined,
+        payload: item,
+        error: parsed.error.issues
+          .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+          .join('; '),
+      });
+    }
+
+    if (valid.length < items.length) {
+      this.logger.warn(`Rejected ${items.length - valid.length}/${items.length} ${this.name} payloads failing validation`);
+    }
+
+    return { valid, rejected };
+  }
+
   async getHealth(): Promise<ConnectorHealth> {
     try {
       const startTime = Date.now();
@@ -0,0 +1,200 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ConnectorHealth as ConnectorHealthRecord } from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { ConnectorName } from './sources';
+import { BreakerState, ConnectorHealth } from './types';
+
+// Runs kept for the error rate that marks a connector degraded
+const BREAKER_WINDOW = 10;
+const DEGRADED_ERROR_RATE = 0.2;
+
+/**
+ * Per-connector circuit breaker persisted in ConnectorHealth. Consecutive failed
+ * runs open the breaker and ingestion skips the connector; once the cooldown is
+ * over the next run goes through as a probe (half-open) and closes or re-opens it.
+ */
+@Injectable()
+export class CircuitBreakerService {
+  private readonly logger = new Logger(CircuitBreakerService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Whether a run may call the connector now. An open breaker past its cooldown is
+   * claimed as half-open so only one worker probes it
+   */
+  async allowRequest(name: ConnectorName): Promise<boolean> {
+    const record = await this.prisma.connectorHealth.findUnique({ where: { connector: name } });
+    if (!record || record.breakerState === 'CLOSED') {
+      return true;
+    }
+
+    const now = new Date();
+    if (record.forcedOpen || (record.nextProbeAt && record.nextProbeAt > now)) {
+      return false;
+    }
+
+    const claimed = await this.prisma.connectorHealth.updateMany({
+      where: {
+        connector: name,
+        breakerState: { not: 'CLOSED' },
+        forcedOpen: false,
+        OR: [{ nextProbeAt: null }, { nextProbeAt: { lte: now } }],
+      },
+      data: {
+        breakerState: 'HALF_OPEN',
+        nextProbeAt: new Date(now.getTime() + this.getCooldownMs()), // a lost probe is retried after this
+      },
+    });
+
+    if (claimed.count > 0) {
+      this.logger.log(`Probing ${name} (circuit half-open)`);
+    }
+
+    return claimed.count > 0;
+  }
+
+  /**
+   * Record a successful run; closes the breaker unless an admin holds it open
+   */
+  async recordSuccess(name: ConnectorName): Promise<void> {
+    try {
+      const record = await this.prisma.connectorHealth.findUnique({ where: { connector: name } });
+      const recentRuns = [true, ...(record?.recentRuns ?? [])].slice(0, BREAKER_WINDOW);
+      const breakerState: BreakerState = record?.forcedOpen ? 'OPEN' : 'CLOSED';
+
+      if (record && record.breakerState !== 'CLOSED' && breakerState === 'CLOSED') {
+        this.logger.log(`Circuit closed for ${name}`);
+      }
+
+      await this.save(name, {
+        status: this.getStatus(breakerState, recentRuns),
+        lastSuccess: new Date(),
+        errorCount: 0,
+        recentRuns,
+        breakerState,
+        ...(breakerState === 'CLOSED' && { openedAt: null, nextProbeAt: null }),
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record success for ${name}:`, error);
+    }
+  }
+
+  /**
+   * Record a failed run; opens the breaker after BREAKER_FAILURE_THRESHOLD failures
+   * in a row, or straight away when a probe fails
+   */
+  async recordFailure(name: ConnectorName, error: string): Promise<void> {
+    try {
+      const record = await this.prisma.connectorHealth.findUnique({ where: { connector: name } });
+      const errorCount = (record?.errorCount ?? 0) + 1;
+      const recentRuns = [false, ...(record?.recentRuns ?? [])].slice(0, BREAKER_WINDOW);
+      const threshold = Number(this.configService.get('BREAKER_FAILURE_THRESHOLD', 3));
+
+      const open = record?.forcedOpen || record?.breakerState === 'HALF_OPEN' || errorCount >= threshold;
+      const breakerState: BreakerState = open ? 'OPEN' : 'CLOSED';
+
+      if (open && record?.breakerState !== 'OPEN') {
+        this.logger.warn(`Circuit opened for ${name} after ${errorCount} consecutive failures: ${error}`);
+      }
+
+      await this.save(name, {
+        status: this.getStatus(breakerState, recentRuns),
+        lastError: error,
+        errorCount,
+        recentRuns,
+        breakerState,
+        ...(open && {
+          openedAt: record?.breakerState === 'OPEN' ? record.openedAt : new Date(),
+          nextProbeAt: new Date(Date.now() + this.getCooldownMs()),
+        }),
+      });
+    } catch (err) {
+      this.logger.error(`Failed to record failure for ${name}:`, err);
+    }
+  }
+
+  /**
+   * Hold a breaker open until it's reset, e.g. during a vendor outage
+   */
+  async forceOpen(name: ConnectorName): Promise<ConnectorHealth> {
+    const record = await this.prisma.connectorHealth.findUnique({ where: { connector: name } });
+    const recentRuns = record?.recentRuns ?? [];
+
+    this.logger.warn(`Circuit for ${name} forced open`);
+
+    return this.toHealth(await this.save(name, {
+      status: this.getStatus('OPEN', recentRuns),
+      breakerState: 'OPEN',
+      forcedOpen: true,
+      openedAt: record?.openedAt ?? new Date(),
+      nextProbeAt: null,
+    }));
+  }
+
+  /**
+   * Close a breaker and forget its failure history
+   */
+  async reset(name: ConnectorName): Promise<ConnectorHealth> {
+    this.logger.log(`Circuit for ${name} reset`);
+
+    return this.toHealth(await this.save(name, {
+      status: 'healthy',
+      errorCount: 0,
+      recentRuns: [],
+      breakerState: 'CLOSED',
+      forcedOpen: false,
+      openedAt: null,
+      nextProbeAt: null,
+    }));
+  }
+
+  /**
+   * Breaker records of every connector that has run
+   */
+  async getStates(): Promise<ConnectorHealthRecord[]> {
+    return this.prisma.connectorHealth.findMany();
+  }
+
+  /**
+   * Down while the breaker is open; degraded when too many recent runs failed,
+   * though a single failure never degrades a connector
+   */
+  getStatus(breakerState: BreakerState, recentRuns: boolean[]): ConnectorHealth['status'] {
+    if (breakerState !== 'CLOSED') {
+      return 'down';
+    }
+
+    const failures = recentRuns.filter(ok => !ok).length;
+    return failures > 1 && failures / recentRuns.length >= DEGRADED_ERROR_RATE ? 'degraded' : 'healthy';
+  }
+
+  private getCooldownMs(): number {
+    return Number(this.configService.get('BREAKER_COOLDOWN_SECONDS', 300)) * 1000;
+  }
+
+  private save(
+    name: ConnectorName,
+    data: Partial<Omit<ConnectorHealthRecord, 'id' | 'connector' | 'updatedAt'>>,
+  ): Promise<ConnectorHealthRecord> {
+    return this.prisma.connectorHealth.upsert({
+      where: { connector: name },
+      update: data,
+      create: { connector: name, status: 'healthy', ...data },
+    });
+  }
+
+  private toHealth(record: ConnectorHealthRecord): ConnectorHealth {
+    return {
+      status: record.status as ConnectorHealth['status'],
+      lastSuccess: record.lastSuccess ?? undefined,
+      lastError: record.lastError ?? undefined,
+      errorCount: record.errorCount,
+      breakerState: record.breakerState as BreakerState,
+    };
+  }
+}
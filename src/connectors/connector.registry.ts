@@ -0,0 +1,62 @@
+import { Injectable, Type } from '@nestjs/common';
+import { readdirSync } from 'fs';
+import { join } from 'path';
+import { Connector, ConnectorCapabilities } from './types';
+
+// Provider token resolving to every registered connector instance
+export const CONNECTORS = 'CONNECTORS';
+
+// Feature flag `connector:<name>` switches a connector on or off at runtime
+export const CONNECTOR_FLAG_PREFIX = 'connector:';
+
+const CONNECTOR_OPTIONS = 'connector:options';
+
+const DEFAULT_CAPABILITIES: ConnectorCapabilities = {
+  outcomes: true,
+  streaming: false,
+  multiOutcome: false,
+};
+
+export interface ConnectorOptions {
+  capabilities?: Partial<ConnectorCapabilities>;
+  environments?: string[]; // NODE_ENV values the connector may run in; all when omitted
+}
+
+const registry: Array<Type<Connector>> = [];
+
+/**
+ * Mark a class as a market connector. Registered connectors are provided by
+ * ConnectorsModule and injected into ConnectorsService under the CONNECTORS token
+ */
+export function MarketConnector(options: ConnectorOptions = {}): ClassDecorator {
+  return (target) => {
+    Injectable()(target);
+    Reflect.defineMetadata(CONNECTOR_OPTIONS, options, target);
+    if (!registry.includes(target as unknown as Type<Connector>)) {
+      registry.push(target as unknown as Type<Connector>);
+    }
+  };
+}
+
+export function getRegisteredConnectors(): Array<Type<Connector>> {
+  return [...registry];
+}
+
+export function getConnectorOptions(connector: Connector | Type<Connector>): ConnectorOptions {
+  const target = typeof connector === 'function' ? connector : connector.constructor;
+  return Reflect.getMetadata(CONNECTOR_OPTIONS, target) ?? {};
+}
+
+export function getConnectorCapabilities(connector: Connector | Type<Connector>): ConnectorCapabilities {
+  return { ...DEFAULT_CAPABILITIES, ...getConnectorOptions(connector).capabilities };
+}
+
+/**
+ * Load every `*.connector` file in a directory so its decorator registers it;
+ * adding a venue then only takes the connector file itself
+ */
+export function loadConnectorFiles(directory: string): void {
+  readdirSync(directory)
+    .filter(file => /\.connector\.(ts|js)$/.test(file) && !file.endsWith('.d.ts'))
+    .forEach(file => require(join(directory, file)));
+}
@@ -1,26 +1,41 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
-import { PolymarketConnector } from './polymarket.connector';
-import { KalshiConnector } from './kalshi.connector';
-import { MockConnector } from './mock.connector';
 import { ConnectorsService } from './connectors.service';
+import { CircuitBreakerService } from './circuit-breaker.service';
+import { QuarantineService } from './quarantine.service';
+import { IngestionRunService } from './ingestion-run.service';
+import { CONNECTORS, getRegisteredConnectors, loadConnectorFiles } from './connector.registry';
 import { PrismaModule } from '../common/prisma/prisma.module';
+import { RedisModule } from '../common/redis/redis.module';
+
+// Connectors register themselves through @MarketConnector when their file loads
+loadConnectorFiles(__dirname);
+const connectorTypes = getRegisteredConnectors();
 
 @Module({
   imports: [
     ConfigModule,
     PrismaModule,
+    RedisModule,
   ],
   providers: [
-    PolymarketConnector,
-    KalshiConnector,
-    MockConnector,
+    ...connectorTypes,
+    {
+      provide: CONNECTORS,
+      useFactory: (...connectors) => connectors,
+      inject: connectorTypes,
+    },
+    CircuitBreakerService,
+    QuarantineService,
+    IngestionRunService,
     ConnectorsService,
   ],
   exports: [
-    PolymarketConnector,
-    KalshiConnector,
-    MockConnector,
+    ...connectorTypes,
+    CONNECTORS,
+    CircuitBreakerService,
+    QuarantineService,
+    IngestionRunService,
     ConnectorsService,
   ],
 })
@@ -1,167 +1,414 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MarketItem, Prisma, PrismaClient } from '@prisma/client';
 import { PrismaService } from '../common/prisma/prisma.service';
-import { PolymarketConnector } from './polymarket.connector';
-import { KalshiConnector } from './kalshi.connector';
-import { MockConnector } from './mock.connector';
-import { Connector, NormalizedMarket, ConnectorHealth } from './types';
+import {
+  Connector,
+  ConnectorError,
+  NormalizedMarket,
+  RawMarket,
+  MarketChange,
+  MarketChangeSet,
+  MarketOutcomeOption,
+  ExchangeInfo,
+  ConnectorHealth,
+  ConnectorCapabilities,
+  BreakerState,
+} from './types';
+import { CircuitBreakerService } from './circuit-breaker.service';
+import { QuarantineService } from './quarantine.service';
+import { IngestionRunService, IngestionRunCounts } from './ingestion-run.service';
+import { ConnectorName, toSource } from './sources';
+import {
+  CONNECTORS,
+  CONNECTOR_FLAG_PREFIX,
+  getConnectorCapabilities,
+  getConnectorOptions,
+} from './connector.registry';
+
+// Markets are diffed and written in chunks of this size, one transaction each
+const STORE_BATCH_SIZE = 200;
+
+export interface IngestionResults {
+  total: number;
+  new: number;
+  priceChanged: number;
+  metadataChanged: number;
+  unchanged: number;
+  quarantined: number;
+  errors: string[];
+  changes: MarketChangeSet;
+}
 
 @Injectable()
 export class ConnectorsService {
   private readonly logger = new Logger(ConnectorsService.name);
-  private readonly connectors: Connector[];
 
   constructor(
     private prisma: PrismaService,
-    private polymarketConnector: PolymarketConnector,
-    private kalshiConnector: KalshiConnector,
-    private mockConnector: MockConnector,
-  ) {
-    this.connectors = [mockConnector, polymarketConnector, kalshiConnector];
-  }
+    private configService: ConfigService,
+    @Inject(CONNECTORS) private readonly connectors: Connector[],
+    private circuitBreaker: CircuitBreakerService,
+    private quarantineService: QuarantineService,
+    private ingestionRuns: IngestionRunService,
+  ) {}
 
   /**
-   * Fetch markets from all connectors and store in database
+   * Fetch markets from all connectors, or just the named one, and store them in the
+   * database. Each connector's run is recorded, and asks the vendor for changes since
+   * its last successful run
    */
-  async fetchAndStoreMarkets(): Promise<{
-    total: number;
-    new: number;
-    updated: number;
-    errors: string[];
-  }> {
-    const results = {
+  async fetchAndStoreMarkets(name?: ConnectorName): Promise<IngestionResults> {
+    const results: IngestionResults = {
       total: 0,
       new: 0,
+      priceChanged: 0,
+      metadataChanged: 0,
+      unchanged: 0,
+      quarantined: 0,
+      errors: [],
+      changes: emptyChangeSet(),
+    };
+
+    const connectors = (await this.getEnabledConnectors()).filter(c => !name || c.name === name);
+    if (name && connectors.length === 0) {
+      this.logger.warn(`Skipping ${name}: connector is not enabled`);
+      results.errors.push(`${name} - connector is not enabled`);
+    }
+
+    for (const connector of connectors) {
+      await this.ingestConnector(connector, results);
+    }
+
+    const { created, priceChanged, metadataChanged, unchanged } = results.changes;
+    results.new = created.length;
+    results.priceChanged = priceChanged.length;
+    results.metadataChanged = metadataChanged.length;
+    results.unchanged = unchanged.length;
+    results.total = results.new + results.priceChanged + results.metadataChanged + results.unchanged;
+
+    try {
+      await this.ingestionRuns.pruneRuns();
+    } catch (error) {
+      this.logger.warn(`Failed to prune ingestion runs: ${error.message}`);
+    }
+
+    this.logger.log(`Market ingestion completed: ${results.total} total, ${results.new} new, ${results.priceChanged} price changed, ${results.metadataChanged} metadata changed, ${results.unchanged} unchanged, ${results.quarantined} quarantined, ${results.errors.length} errors`);
+    return results;
+  }
+
+  /**
+   * Re-fetch a single market from its vendor and store it. This sits outside the
+   * connector's runs, so its watermark doesn't move
+   */
+  async refreshMarket(name: ConnectorName, externalId: string): Promise<MarketChangeSet> {
+    const connector = (await this.getEnabledConnectors()).find(c => c.name === name);
+    if (!connector) {
+      throw new Error(`Connector ${name} is not enabled`);
+    }
+
+    if (!(await this.circuitBreaker.allowRequest(name))) {
+      throw new Error(`Circuit breaker for ${name} is open`);
+    }
+
+    let rawMarket: RawMarket | null;
+    try {
+      const fetched = await connector.fetchMarket(externalId);
+      rawMarket = fetched.market;
+      await this.circuitBreaker.recordSuccess(name);
+      await this.quarantineService.quarantine(name, fetched.rejected);
+    } catch (error) {
+      this.logger.error(`Failed to refresh market ${externalId} from ${name}:`, error);
+      // An unknown id says nothing about the vendor's health
+      if ((error as ConnectorError).statusCode !== 404) {
+        await this.circuitBreaker.recordFailure(name, error.message);
+      }
+      throw error;
+    }
+
+    if (!rawMarket) {
+      this.logger.warn(`Skipping market ${externalId} from ${name}: rejected or no longer listed`);
+      return emptyChangeSet();
+    }
+
+    const { changes, errors } = await this.storeMarkets(name, [connector.normalize(rawMarket)]);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+    return changes;
+  }
+
+  /**
+   * One connector's run, added to the overall results
+   */
+  private async ingestConnector(connector: Connector, results: IngestionResults): Promise<void> {
+    if (!(await this.circuitBreaker.allowRequest(connector.name))) {
+      this.logger.warn(`Skipping ${connector.name}: circuit breaker is open`);
+      await this.ingestionRuns.skip(connector.name, 'Circuit breaker open');
+      return;
+    }
+
+    const since = await this.ingestionRuns.getSince(connector.name);
+    const run = await this.ingestionRuns.start(connector.name, since);
+    const counts: IngestionRunCounts = {
+      fetched: 0,
+      created: 0,
       updated: 0,
-      errors: [] as string[],
+      unchanged: 0,
+      quarantined: 0,
+      errorCount: 0,
     };
 
-    for (const connector of this.connectors) {
-      try {
-        this.logger.log(`Fetching markets from ${connector.name}`);
-        
-        const rawMarkets = await connector.fetchMarkets({
-          since: new Date(Date.now() - 24 * 60 * 60 * 1000), // Last 24 hours
-        });
+    try {
+      this.logger.log(`Fetching markets from ${connector.name} changed since ${since.toISOString()}`);
 
-        this.logger.log(`Fetched ${rawMarkets.length} markets from ${connector.name}`);
-
-        for (const rawMarket of rawMarkets) {
-          try {
-            const normalized = connector.normalize(rawMarket);
-            const result = await this.storeMarket(normalized);
-            
-            results.total++;
-            if (result.isNew) {
-              results.new++;
-            } else {
-              results.updated++;
-            }
-          } catch (error) {
-            this.logger.error(
-              `Failed to store market ${rawMarket.id} from ${connector.name}:`,
-              error,
-            );
-            results.errors.push(`${connector.name}:${rawMarket.id} - ${error.message}`);
-          }
-        }
+      const { markets: rawMarkets, rejected } = await connector.fetchMarkets({ since });
 
-        // Update connector health
-        await this.updateConnectorHealth(connector);
-      } catch (error) {
-        this.logger.error(`Failed to fetch from ${connector.name}:`, error);
-        results.errors.push(`${connector.name} - ${error.message}`);
-        
-        // Update connector health with error
-        await this.updateConnectorHealth(connector, error.message);
+      this.logger.log(`Fetched ${rawMarkets.length} markets from ${connector.name}`);
+      counts.fetched = rawMarkets.length;
+      counts.quarantined = await this.quarantineService.quarantine(connector.name, rejected);
+
+      const normalized: NormalizedMarket[] = [];
+      for (const rawMarket of rawMarkets) {
+        try {
+          normalized.push(connector.normalize(rawMarket));
+        } catch (error) {
+          this.logger.error(
+            `Failed to normalize market ${rawMarket.id} from ${connector.name}:`,
+            error,
+          );
+          counts.errorCount++;
+          results.errors.push(`${connector.name}:${rawMarket.id} - ${error.message}`);
+        }
       }
+
+      const { changes, errors } = await this.storeMarkets(connector.name, normalized);
+      counts.created = changes.created.length;
+      counts.updated = changes.priceChanged.length + changes.metadataChanged.length;
+      counts.unchanged = changes.unchanged.length;
+      counts.errorCount += errors.length;
+      results.errors.push(...errors);
+      mergeChangeSet(results.changes, changes);
+
+      await this.ingestionRuns.succeed(run, counts);
+      await this.circuitBreaker.recordSuccess(connector.name);
+    } catch (error) {
+      this.logger.error(`Failed to fetch from ${connector.name}:`, error);
+      results.errors.push(`${connector.name} - ${error.message}`);
+      counts.errorCount++;
+
+      await this.ingestionRuns.fail(run, counts, error.message);
+      await this.circuitBreaker.recordFailure(connector.name, error.message);
     }
 
-    this.logger.log(`Market ingestion completed: ${results.total} total, ${results.new} new, ${results.updated} updated, ${results.errors.length} errors`);
-    return results;
+    results.quarantined += counts.quarantined;
   }
 
   /**
-   * Store a normalized market in the database
+   * Store one connector's markets in batches: each batch is read in one query,
+   * diffed against the stored rows, and only new or changed markets are written.
+   * A failed batch is retried market by market, so only the bad rows are lost
    */
-  private async storeMarket(normalized: NormalizedMarket): Promise<{ isNew: boolean }> {
-    return this.prisma.executeTransaction(async (prisma) => {
-      const existing = await prisma.marketItem.findUnique({
-        where: {
-          market_external_unique: {
-            source: normalized.source.toUpperCase() as any,
-            externalId: normalized.externalId,
-          },
-        },
-      });
+  private async storeMarkets(
+    name: ConnectorName,
+    markets: NormalizedMarket[],
+  ): Promise<{ changes: MarketChangeSet; errors: string[] }> {
+    const changes = emptyChangeSet();
+    const errors: string[] = [];
 
-      if (existing) {
-        // Update existing market
-        await prisma.marketItem.update({
-          where: { id: existing.id },
-          data: {
-            question: normalized.question,
-            yesPrice: normalized.yesPrice,
-            noPrice: normalized.noPrice,
-            volume24h: normalized.volume,
-            liquidity: normalized.liquidity,
-            endDate: new Date(normalized.endDate),
-            lastChange24h: normalized.lastChange24h,
-            tags: normalized.tags,
-            exchanges: normalized.exchanges as any,
-            updatedAt: new Date(),
-          },
-        });
-        return { isNew: false };
+    // Vendors can list a market twice across pages; the last copy wins
+    const unique = [...new Map(markets.map(market => [market.externalId, market])).values()];
+
+    for (let i = 0; i < unique.length; i += STORE_BATCH_SIZE) {
+      const batch = unique.slice(i, i + STORE_BATCH_SIZE);
+
+      try {
+        mergeChangeSet(changes, await this.storeBatch(name, batch));
+        continue;
+      } catch (error) {
+        this.logger.warn(`Failed to store ${batch.length} markets from ${name} (${error.message}), retrying one at a time`);
+      }
+
+      // Isolate the market that broke the batch so the rest still land
+      for (const market of batch) {
+        try {
+          mergeChangeSet(changes, await this.storeBatch(name, [market]));
+        } catch (error) {
+          this.logger.error(`Failed to store market ${market.externalId} from ${name}:`, error);
+          errors.push(`${name}:${market.externalId} - ${error.message}`);
+        }
+      }
+    }
+
+    return { changes, errors };
+  }
+
+  private async storeBatch(name: ConnectorName, batch: NormalizedMarket[]): Promise<MarketChangeSet> {
+    const source = toSource(name);
+    const changes = emptyChangeSet();
+
+    const existing = await this.prisma.marketItem.findMany({
+      where: { source, externalId: { in: batch.map(market => market.externalId) } },
+    });
+    const byExternalId = new Map(existing.map(row => [row.externalId, row]));
+
+    const toCreate: NormalizedMarket[] = [];
+    const toUpdate: Array<{ row: MarketItem; market: NormalizedMarket; change: 'price' | 'metadata' }> = [];
+
+    for (const market of batch) {
+      const row = byExternalId.get(market.externalId);
+      if (!row) {
+        toCreate.push(market);
+        continue;
+      }
+
+      const change = this.diffMarket(row, market);
+      if (change) {
+        toUpdate.push({ row, market, change });
       } else {
-        // Create new market
-        await prisma.marketItem.create({
-          data: {
-            source: normalized.source.toUpperCase() as any,
-            sourceId: normalized.externalId, // Use sourceId as the external ID
-            externalId: normalized.externalId, // Add externalId field
-            question: normalized.question,
-            yesPrice: normalized.yesPrice,
-            noPrice: normalized.noPrice,
-            volume24h: normalized.volume,
-            liquidity: normalized.liquidity,
-            endDate: new Date(normalized.endDate),
-            lastChange24h: normalized.lastChange24h,
-            tags: normalized.tags,
-            exchanges: normalized.exchanges as any,
-          },
+        changes.unchanged.push(toChange(row.id, market));
+      }
+    }
+
+    if (toCreate.length === 0 && toUpdate.length === 0) {
+      return changes;
+    }
+
+    await this.prisma.executeTransaction(async (prisma) => {
+      const snapshots: Prisma.MarketPriceSnapshotCreateManyInput[] = [];
+
+      if (toCreate.length > 0) {
+        await prisma.marketItem.createMany({
+          data: toCreate.map(market => ({
+            source,
+            sourceId: market.externalId, // Use sourceId as the external ID
+            externalId: market.externalId,
+            ...this.toMarketData(market),
+          })),
+          skipDuplicates: true,
         });
-        return { isNew: true };
+
+        // createMany doesn't return rows, so look the new ids up
+        const created = await prisma.marketItem.findMany({
+          where: { source, externalId: { in: toCreate.map(market => market.externalId) } },
+          select: { id: true, externalId: true },
+        });
+        const ids = new Map(created.map(row => [row.externalId, row.id]));
+
+        for (const market of toCreate) {
+          const id = ids.get(market.externalId);
+          if (id) {
+            changes.created.push(toChange(id, market));
+            snapshots.push(toSnapshot(id, market));
+          }
+        }
+      }
+
+      if (toUpdate.length > 0) {
+        await this.updateMarkets(prisma, toUpdate);
+      }
+
+      for (const { row, market, change } of toUpdate) {
+        // Only extend the price history when something actually moved
+        if (change === 'price') {
+          changes.priceChanged.push(toChange(row.id, market));
+          snapshots.push(toSnapshot(row.id, market));
+        } else {
+          changes.metadataChanged.push(toChange(row.id, market));
+        }
+      }
+
+      if (snapshots.length > 0) {
+        await prisma.marketPriceSnapshot.createMany({ data: snapshots });
       }
     });
+
+    return changes;
   }
 
   /**
-   * Update connector health status
+   * Write changed markets in one statement. Fields the vendor left out keep their
+   * stored value, as they would with a Prisma update, and merged cards keep the
+   * other venues' exchanges
    */
-  private async updateConnectorHealth(connector: Connector, error?: string): Promise<void> {
-    try {
-      const health = await connector.getHealth();
-      
-      await this.prisma.connectorHealth.upsert({
-        where: { connector: connector.name },
-        update: {
-          status: error ? 'down' : health.status,
-          lastSuccess: health.lastSuccess,
-          lastError: error || health.lastError,
-          errorCount: error ? { increment: 1 } : 0,
-          updatedAt: new Date(),
-        },
-        create: {
-          connector: connector.name,
-          status: error ? 'down' : health.status,
-          lastSuccess: health.lastSuccess,
-          lastError: error || health.lastError,
-          errorCount: error ? 1 : 0,
-        },
-      });
-    } catch (error) {
-      this.logger.error(`Failed to update health for ${connector.name}:`, error);
+  private async updateMarkets(
+    prisma: PrismaClient,
+    updates: Array<{ row: MarketItem; market: NormalizedMarket }>,
+  ): Promise<void> {
+    const now = new Date();
+    const rows = updates.map(({ row, market }) => Prisma.sql`(
+      ${row.id}, ${market.question}, ${market.description ?? null}, ${market.yesPrice}::float8,
+      ${market.noPrice}::float8, ${market.volume}::float8, ${market.liquidity ?? null}::float8,
+      ${new Date(market.endDate)}::timestamp(3), ${market.lastChange24h ?? null}::float8, ${market.tags}::text[],
+      ${market.outcomes ? JSON.stringify(market.outcomes) : null}::jsonb,
+      ${JSON.stringify(withOwnExchanges(row.exchanges as unknown as ExchangeInfo[] | null, market.exchanges))}::jsonb
+    )`);
+
+    await prisma.$executeRaw`
+      UPDATE "market_items" AS m SET
+        "question" = v."question",
+        "description" = COALESCE(v."description", m."description"),
+        "yesPrice" = v."yesPrice",
+        "noPrice" = v."noPrice",
+        "volume24h" = v."volume24h",
+        "liquidity" = COALESCE(v."liquidity", m."liquidity"),
+        "endDate" = v."endDate",
+        "lastChange24h" = COALESCE(v."lastChange24h", m."lastChange24h"),
+        "tags" = v."tags",
+        "outcomes" = v."outcomes", -- cleared if a market stops being categorical
+        "exchanges" = v."exchanges",
+        "updatedAt" = ${now}::timestamp(3)
+      FROM (VALUES ${Prisma.join(rows)}) AS v(
+        "id", "question", "description", "yesPrice", "noPrice", "volume24h", "liquidity",
+        "endDate", "lastChange24h", "tags", "outcomes", "exchanges"
+      )
+      WHERE m."id" = v."id"
+    `;
+  }
+
+  /**
+   * How a vendor update differs from the stored market, if at all. Exchanges are
+   * left out: merged cards carry other venues' links that the vendor never sends
+   */
+  private diffMarket(row: MarketItem, market: NormalizedMarket): 'price' | 'metadata' | undefined {
+    const priceChanged =
+      row.yesPrice !== market.yesPrice ||
+      row.noPrice !== market.noPrice ||
+      row.volume24h !== market.volume ||
+      !sameOutcomes(row.outcomes as unknown as MarketOutcomeOption[] | null, market.outcomes);
+
+    if (priceChanged) {
+      return 'price';
     }
+
+    const metadataChanged =
+      row.question !== market.question ||
+      row.description !== (market.description ?? row.description) ||
+      row.liquidity !== (market.liquidity ?? row.liquidity) ||
+      row.lastChange24h !== (market.lastChange24h ?? row.lastChange24h) ||
+      row.endDate.getTime() !== new Date(market.endDate).getTime() ||
+      row.tags.join('\n') !== market.tags.join('\n');
+
+    return metadataChanged ? 'metadata' : undefined;
+  }
+
+  /**
+   * Vendor fields written when a market is created
+   */
+  private toMarketData(market: NormalizedMarket) {
+    return {
+      question: market.question,
+      description: market.description,
+      yesPrice: market.yesPrice,
+      noPrice: market.noPrice,
+      volume24h: market.volume,
+      liquidity: market.liquidity,
+      endDate: new Date(market.endDate),
+      lastChange24h: market.lastChange24h,
+      tags: market.tags,
+      outcomes: market.outcomes as any,
+      exchanges: market.exchanges as any,
+    };
   }
 
   /**
@@ -177,21 +424,131 @@ export class ConnectorsService {
         lastSuccess: record?.lastSuccess,
         lastError: record?.lastError,
         errorCount: record?.errorCount || 0,
+        breakerState: record?.breakerState as BreakerState,
       };
     });
   }
 
   /**
-   * Get all connectors
+   * Get all registered connectors, enabled or not
    */
   getConnectors(): Connector[] {
     return this.connectors;
   }
 
+  /**
+   * Connectors allowed to run now. A connector must support the current NODE_ENV;
+   * a `connector:<name>` feature flag then wins over the CONNECTORS_ENABLED list
+   */
+  async getEnabledConnectors(): Promise<Connector[]> {
+    const overrides = await this.getFlagOverrides();
+    return this.connectors.filter(connector => this.isEnabled(connector, overrides));
+  }
+
+  /**
+   * Registered connectors with their capabilities and whether they currently run
+   */
+  async getConnectorRegistry(): Promise<Array<{
+    name: ConnectorName;
+    enabled: boolean;
+    capabilities: ConnectorCapabilities;
+  }>> {
+    const overrides = await this.getFlagOverrides();
+
+    return this.connectors.map(connector => ({
+      name: connector.name,
+      enabled: this.isEnabled(connector, overrides),
+      capabilities: getConnectorCapabilities(connector),
+    }));
+  }
+
+  getCapabilities(name: ConnectorName): ConnectorCapabilities | undefined {
+    const connector = this.getConnector(name);
+    return connector ? getConnectorCapabilities(connector) : undefined;
+  }
+
+  private isEnabled(connector: Connector, overrides: Map<string, boolean>): boolean {
+    const { environments } = getConnectorOptions(connector);
+    const env = this.configService.get('NODE_ENV', 'development');
+    if (environments && !environments.includes(env)) {
+      return false;
+    }
+
+    const override = overrides.get(connector.name);
+    if (override !== undefined) {
+      return override;
+    }
+
+    const allowList = this.configService.get<string>('CONNECTORS_ENABLED');
+    return !allowList || allowList.split(',').map(name => name.trim()).includes(connector.name);
+  }
+
+  private async getFlagOverrides(): Promise<Map<string, boolean>> {
+    try {
+      const flags = await this.prisma.featureFlag.findMany({
+        where: { key: { startsWith: CONNECTOR_FLAG_PREFIX } },
+        select: { key: true, enabled: true },
+      });
+      return new Map(flags.map(flag => [flag.key.slice(CONNECTOR_FLAG_PREFIX.length), flag.enabled]));
+    } catch (error) {
+      this.logger.warn(`Failed to read connector flags, using configuration only: ${error.message}`);
+      return new Map();
+    }
+  }
+
   /**
    * Get a specific connector by name
    */
-  getConnector(name: 'polymarket' | 'kalshi'): Connector | undefined {
+  getConnector(name: ConnectorName): Connector | undefined {
     return this.connectors.find(c => c.name === name);
   }
 }
+
+const emptyChangeSet = (): MarketChangeSet => ({
+  created: [],
+  priceChanged: [],
+  metadataChanged: [],
+  unchanged: [],
+});
+
+const mergeChangeSet = (target: MarketChangeSet, source: MarketChangeSet): void => {
+  target.created.push(...source.created);
+  target.priceChanged.push(...source.priceChanged);
+  target.metadataChanged.push(...source.metadataChanged);
+  target.unchanged.push(...source.unchanged);
+};
+
+const toChange = (id: string, market: NormalizedMarket): MarketChange => ({
+  id,
+  externalId: market.externalId,
+  yesPrice: market.yesPrice,
+  noPrice: market.noPrice,
+  volume: market.volume,
+});
+
+const toSnapshot = (marketId: string, market: NormalizedMarket): Prisma.MarketPriceSnapshotCreateManyInput => ({
+  marketId,
+  yesPrice: market.yesPrice,
+  noPrice: market.noPrice,
+  volume24h: market.volume,
+  liquidity: market.liquidity ?? 0,
+});
+
+// The vendor's own entries replace those for the same venue; other venues stay as merged
+const withOwnExchanges = (stored: ExchangeInfo[] | null, own: ExchangeInfo[]): ExchangeInfo[] => [
+  ...own,
+  ...(stored || []).filter(exchange => !own.some(o => o.name === exchange.name)),
+];
+
+// Compared field by field; jsonb doesn't keep key order
+const sameOutcomes = (stored: MarketOutcomeOption[] | null, incoming?: MarketOutcomeOption[]): boolean => {
+  if (!stored || !incoming) {
+    return !stored === !incoming;
+  }
+
+  return stored.length === incoming.length && stored.every((outcome, i) =>
+    outcome.id === incoming[i].id &&
+    outcome.label === incoming[i].label &&
+    outcome.price === incoming[i].price,
+  );
+};
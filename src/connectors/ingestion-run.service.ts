@@ -0,0 +1,149 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { IngestionRun, Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { ConnectorName } from './sources';
+import {
+  IngestionRunListRequestSchema,
+  IngestionRunListRequestDto,
+} from '../common/schemas/admin.schemas';
+
+// First run for a connector (no watermark yet) looks back this far
+const INITIAL_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// Re-read a little before the watermark to absorb vendor clock skew
+const WATERMARK_OVERLAP_MS = 5 * 60 * 1000;
+
+const RUN_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface IngestionRunCounts {
+  fetched: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  quarantined: number;
+  errorCount: number;
+}
+
+/**
+ * Per-connector ingestion history and high-water marks. Each successful run moves
+ * the watermark to its start, so the next run (however late) fetches everything since
+ */
+@Injectable()
+export class IngestionRunService {
+  private readonly logger = new Logger(IngestionRunService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Where the next run for a connector should fetch from
+   */
+  async getSince(name: ConnectorName): Promise<Date> {
+    const mark = await this.prisma.ingestionWatermark.findUnique({ where: { connector: name } });
+
+    return mark
+      ? new Date(mark.watermark.getTime() - WATERMARK_OVERLAP_MS)
+      : new Date(Date.now() - INITIAL_LOOKBACK_MS);
+  }
+
+  async start(name: ConnectorName, since: Date): Promise<IngestionRun> {
+    return this.prisma.ingestionRun.create({
+      data: { connector: name, since },
+    });
+  }
+
+  /**
+   * Close a successful run and advance the connector's watermark to its start
+   */
+  async succeed(run: IngestionRun, counts: IngestionRunCounts): Promise<void> {
+    await this.prisma.executeTransaction(async (prisma) => {
+      await prisma.ingestionRun.update({
+        where: { id: run.id },
+        data: { status: 'SUCCEEDED', ...this.finishedAt(run), ...counts },
+      });
+
+      await prisma.ingestionWatermark.upsert({
+        where: { connector: run.connector },
+        update: { watermark: run.startedAt },
+        create: { connector: run.connector, watermark: run.startedAt },
+      });
+    });
+  }
+
+  /**
+   * Close a failed run; the watermark stays put so the next run covers the gap
+   */
+  async fail(run: IngestionRun, counts: IngestionRunCounts, error: string): Promise<void> {
+    try {
+      await this.prisma.ingestionRun.update({
+        where: { id: run.id },
+        data: { status: 'FAILED', ...this.finishedAt(run), ...counts, error },
+      });
+    } catch (err) {
+      this.logger.error(`Failed to record failed ${run.connector} run ${run.id}:`, err);
+    }
+  }
+
+  /**
+   * Record a connector the circuit breaker kept out of this run
+   */
+  async skip(name: ConnectorName, reason: string): Promise<void> {
+    try {
+      const now = new Date();
+      await this.prisma.ingestionRun.create({
+        data: { connector: name, status: 'SKIPPED', startedAt: now, finishedAt: now, durationMs: 0, error: reason },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record skipped ${name} run:`, error);
+    }
+  }
+
+  /**
+   * Drop run history past the retention window
+   */
+  async pruneRuns(): Promise<number> {
+    const { count } = await this.prisma.ingestionRun.deleteMany({
+      where: { startedAt: { lt: new Date(Date.now() - RUN_RETENTION_MS) } },
+    });
+    return count;
+  }
+
+  /**
+   * Most recent runs, newest first, with each connector's current watermark
+   */
+  async listRuns(query: IngestionRunListRequestDto) {
+    const parsed = IngestionRunListRequestSchema.safeParse(query);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors[0]?.message);
+    }
+
+    const { connector, status, limit } = parsed.data;
+    const where: Prisma.IngestionRunWhereInput = {
+      ...(connector && { connector }),
+      ...(status && { status }),
+    };
+
+    const [runs, watermarks] = await Promise.all([
+      this.prisma.ingestionRun.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        take: limit,
+      }),
+      this.prisma.ingestionWatermark.findMany({
+        where: connector ? { connector } : undefined,
+      }),
+    ]);
+
+    return {
+      runs,
+      watermarks: watermarks.map(mark => ({
+        connector: mark.connector,
+        watermark: mark.watermark.toISOString(),
+      })),
+    };
+  }
+
+  private finishedAt(run: IngestionRun): { finishedAt: Date; durationMs: number } {
+    const finishedAt = new Date();
+    return { finishedAt, durationMs: finishedAt.getTime() - run.startedAt.getTime() };
+  }
+}
@@ -1,28 +1,43 @@
-import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { z } from 'zod';
 import { BaseConnector } from './base.connector';
-import { RawMarket, NormalizedMarket, ConnectorConfig } from './types';
-
-interface KalshiMarket {
-  id: string;
-  title: string;
-  yes_bid: number;
-  no_bid: number;
-  volume: number;
-  open_interest: number;
-  close_time: string;
-  price_change_24h: number;
-  category: string;
-  tags: string[];
-  description: string;
+import { MarketConnector } from './connector.registry';
+import { RedisService } from '../common/redis/redis.service';
+import { RawMarket, NormalizedMarket, ConnectorConfig, MarketOutcome, FetchedMarkets, FetchedMarket } from './types';
+
+const KalshiMarketSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  yes_bid: z.number().min(0).max(1),
+  no_bid: z.number().min(0).max(1),
+  volume: z.number().nonnegative(),
+  open_interest: z.number().nonnegative(),
+  close_time: z.string().datetime({ offset: true }),
+  price_change_24h: z.number().optional(),
+  category: z.string(),
+  tags: z.array(z.string()).nullish(),
+  description: z.string().optional(),
+});
+
+type KalshiMarket = z.infer<typeof KalshiMarketSchema>;
+
+interface KalshiMarketDetail extends KalshiMarket {
+  status: 'open' | 'closed' | 'settled' | 'finalized';
+  result: 'yes' | 'no' | 'void' | '';
+  settlement_time?: string;
+  rules_primary?: string;
+}
+
+interface KalshiMarketDetailResponse {
+  market: KalshiMarketDetail;
 }
 
 interface KalshiResponse {
-  markets: KalshiMarket[];
+  markets: unknown[]; // validated against KalshiMarketSchema
   cursor?: string;
 }
 
-@Injectable()
+@MarketConnector()
 export class KalshiConnector extends BaseConnector {
   readonly name = 'kalshi' as const;
   readonly config: ConnectorConfig = {
@@ -35,33 +50,92 @@ export class KalshiConnector extends BaseConnector {
       maxRetries: 3,
       backoffMs: 1000,
     },
+    pagination: {
+      pageSize: 100,
+      maxPages: Number(this.configService.get('KALSHI_MAX_PAGES', 50)),
+    },
     timeout: 10000,
   };
 
-  constructor(configService: ConfigService) {
-    super(configService);
+  constructor(configService: ConfigService, redis: RedisService) {
+    super(configService, redis);
     this.initializeHttpClient();
   }
 
-  async fetchMarkets(params: { since?: Date }): Promise<RawMarket[]> {
+  async fetchMarkets(params: { since?: Date }): Promise<FetchedMarkets> {
     try {
-      const queryParams = new URLSearchParams({
-        limit: '100',
-        status: 'open',
-        ...(params.since && { since: params.since.toISOString() }),
+      const markets = await this.fetchAllPages(async (cursor) => {
+        const queryParams = new URLSearchParams({
+          limit: String(this.config.pagination.pageSize),
+          status: 'open',
+          ...(params.since && { since: params.since.toISOString() }),
+          ...(cursor && { cursor }),
+        });
+
+        const response = await this.httpClient.get<KalshiResponse>(
+          `/markets?${queryParams}`,
+        );
+
+        return {
+          items: response.data.markets,
+          cursor: response.data.cursor,
+        };
       });
 
-      const response = await this.httpClient.get<KalshiResponse>(
-        `/markets?${queryParams}`,
-      );
+      const { valid, rejected } = this.validatePayloads(KalshiMarketSchema, markets);
 
-      return response.data.markets.map(this.normalizeToRaw);
+      return { markets: valid.map(this.normalizeToRaw), rejected };
     } catch (error) {
       this.logger.error('Failed to fetch Kalshi data:', error);
       throw error;
     }
   }
 
+  async fetchMarket(externalId: string): Promise<FetchedMarket> {
+    try {
+      const response = await this.httpClient.get<{ market: unknown }>(
+        `/markets/${encodeURIComponent(externalId)}`,
+      );
+      const { valid: [market], rejected } = this.validatePayloads(KalshiMarketSchema, [response.data.market]);
+
+      return { market: market ? this.normalizeToRaw(market) : null, rejected };
+    } catch (error) {
+      this.logger.error(`Failed to fetch Kalshi market ${externalId}:`, error);
+      throw error;
+    }
+  }
+
+  async fetchOutcome(externalId: string): Promise<MarketOutcome> {
+    try {
+      const response = await this.httpClient.get<KalshiMarketDetailResponse>(
+        `/markets/${encodeURIComponent(externalId)}`,
+      );
+      const market = response.data.market;
+
+      if ((market.status !== 'settled' && market.status !== 'finalized') || !market.result) {
+        return { status: 'pending' };
+      }
+
+      const resolution = {
+        resolvedAt: market.settlement_time ? new Date(market.settlement_time) : undefined,
+        source: market.rules_primary,
+      };
+
+      if (market.result === 'void') {
+        return { status: 'voided', ...resolution };
+      }
+
+      return {
+        status: 'resolved',
+        outcome: market.result === 'yes' ? 'YES' : 'NO',
+        ...resolution,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to fetch Kalshi outcome for ${externalId}:`, error);
+      throw error;
+    }
+  }
+
   normalize(raw: RawMarket): NormalizedMarket {
     return {
       source: 'kalshi',
@@ -74,6 +148,7 @@ export class KalshiConnector extends BaseConnector {
       endDate: raw.endDate,
       lastChange24h: raw.lastChange24h,
       tags: raw.tags,
+      description: raw.description,
       exchanges: [
         {
           name: 'Kalshi',
@@ -96,8 +171,6 @@ export class KalshiConnector extends BaseConnector {
     endDate: market.close_time,
     lastChange24h: market.price_change_24h,
     tags: [market.category, ...(market.tags || [])],
-    metadata: {
-      description: market.description,
-    },
+    description: market.description,
   });
 }
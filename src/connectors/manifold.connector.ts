@@ -0,0 +1,268 @@
+import { ConfigService } from '@nestjs/config';
+import { z } from 'zod';
+import { BaseConnector } from './base.connector';
+import { MarketConnector } from './connector.registry';
+import { RedisService } from '../common/redis/redis.service';
+import { VENUES } from './sources';
+import { RawMarket, NormalizedMarket, ConnectorConfig, MarketOutcome, FetchedMarkets, FetchedMarket, RejectedPayload } from './types';
+
+const ManifoldMarketSchema = z.object({
+  id: z.string().min(1),
+  question: z.string().min(1),
+  slug: z.string(),
+  url: z.string().url(),
+  outcomeType: z.string(), // 'BINARY' | 'MULTIPLE_CHOICE' | 'PSEUDO_NUMERIC' | 'POLL' | ...
+  probability: z.number().min(0).max(1).optional(), // binary markets only
+  closeTime: z.number().optional(), // ms epoch; open-ended markets have none
+  volume: z.number().nonnegative(),
+  volume24Hours: z.number().nonnegative(),
+  totalLiquidity: z.number().nonnegative().optional(),
+  isResolved: z.boolean(),
+  lastUpdatedTime: z.number().optional(),
+});
+
+type ManifoldMarket = z.infer<typeof ManifoldMarketSchema>;
+
+interface ManifoldAnswer {
+  id: string;
+  text: string;
+  probability: number;
+  resolution?: 'YES' | 'NO' | 'MKT' | 'CANCEL';
+}
+
+interface ManifoldMarketDetail extends ManifoldMarket {
+  textDescription?: string;
+  groupSlugs?: string[];
+  answers?: ManifoldAnswer[];
+  resolution?: string; // 'YES' | 'NO' | 'MKT' | 'CANCEL', or the winning answer id
+  resolutionTime?: number;
+}
+
+// Each answer of a multiple-choice market becomes its own yes/no card; long tails are dropped
+const MAX_ANSWERS_PER_MARKET = 10;
+
+// Answer markets get "<market id>:<answer id>" external ids
+const ANSWER_ID_SEPARATOR = ':';
+
+@MarketConnector({
+  capabilities: { multiOutcome: true },
+})
+export class ManifoldConnector extends BaseConnector {
+  readonly name = 'manifold' as const;
+  readonly config: ConnectorConfig = {
+    apiUrl: this.configService.get('MANIFOLD_API_URL', 'https://api.manifold.markets'),
+    rateLimit: {
+      requestsPerMinute: 300,
+      burstLimit: 20,
+    },
+    retry: {
+      maxRetries: 3,
+      backoffMs: 1000,
+    },
+    pagination: {
+      pageSize: 500,
+      maxPages: Number(this.configService.get('MANIFOLD_MAX_PAGES', 10)),
+    },
+    timeout: 10000,
+  };
+
+  constructor(configService: ConfigService, redis: RedisService) {
+    super(configService, redis);
+    this.initializeHttpClient();
+  }
+
+  async fetchMarkets(params: { since?: Date }): Promise<FetchedMarkets> {
+    try {
+      const since = params.since?.getTime();
+      const rejected: RejectedPayload[] = [];
+      const markets = await this.fetchAllPages<ManifoldMarket>(async (cursor) => {
+        const queryParams = new URLSearchParams({
+          limit: String(this.config.pagination.pageSize),
+          sort: 'updated-time',
+          order: 'desc',
+          ...(cursor && { before: cursor }),
+        });
+
+        // The list is a bare array; the next page starts before the last id, valid or not
+        const response = await this.httpClient.get<unknown[]>(`/v0/markets?${queryParams}`);
+        const lastId = (response.data[response.data.length - 1] as { id?: string } | undefined)?.id;
+        const { valid: page, rejected: pageRejected } = this.validatePayloads(ManifoldMarketSchema, response.data);
+        rejected.push(...pageRejected);
+        const last = page[page.length - 1];
+        const reachedSince = since !== undefined && (last?.lastUpdatedTime ?? 0) < since;
+
+        return {
+          items: since !== undefined ? page.filter(m => (m.lastUpdatedTime ?? 0) >= since) : page,
+          cursor: response.data.length === this.config.pagination.pageSize && !reachedSince ? lastId : undefined,
+        };
+      });
+
+      const open = markets.filter(m => !m.isResolved && m.closeTime && m.closeTime > Date.now());
+      const rawMarkets: RawMarket[] = [];
+
+      for (const market of open) {
+        if (market.outcomeType === 'BINARY' && market.probability !== undefined) {
+          rawMarkets.push(this.normalizeToRaw(market, market.probability));
+        } else if (market.outcomeType === 'MULTIPLE_CHOICE') {
+          rawMarkets.push(...await this.fetchAnswerMarkets(market));
+        }
+      }
+
+      return { markets: rawMarkets, rejected };
+    } catch (error) {
+      this.logger.error('Failed to fetch Manifold data:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Refresh one market, or one answer of a multiple-choice market by its
+   * "<market id>:<answer id>" external id
+   */
+  async fetchMarket(externalId: string): Promise<FetchedMarket> {
+    try {
+      const [marketId, answerId] = externalId.split(ANSWER_ID_SEPARATOR);
+      const response = await this.httpClient.get<ManifoldMarketDetail>(
+        `/v0/market/${encodeURIComponent(marketId)}`,
+      );
+
+      // The schema strips the detail fields (answers, groups), so keep the response around
+      const { valid: [market], rejected } = this.validatePayloads(ManifoldMarketSchema, [response.data]);
+      if (!market || market.isResolved || !market.closeTime) {
+        return { market: null, rejected };
+      }
+
+      // Binaries come from the list-shaped fields, as fetchMarkets sees them
+      if (!answerId) {
+        return {
+          market: market.outcomeType === 'BINARY' && market.probability !== undefined
+            ? this.normalizeToRaw(market, market.probability)
+            : null,
+          rejected,
+        };
+      }
+
+      const detail = response.data;
+      const answer = detail.answers?.find(a => a.id === answerId && !a.resolution);
+      return { market: answer ? this.toAnswerMarket(detail, answer) : null, rejected };
+    } catch (error) {
+      this.logger.error(`Failed to fetch Manifold market ${externalId}:`, error);
+      throw error;
+    }
+  }
+
+  async fetchOutcome(externalId: string): Promise<MarketOutcome> {
+    try {
+      const [marketId, answerId] = externalId.split(ANSWER_ID_SEPARATOR);
+      const response = await this.httpClient.get<ManifoldMarketDetail>(
+        `/v0/market/${encodeURIComponent(marketId)}`,
+      );
+      const market = response.data;
+
+      if (!market.isResolved) {
+        return { status: 'pending' };
+      }
+
+      const resolution = {
+        resolvedAt: market.resolutionTime ? new Date(market.resolutionTime) : undefined,
+        source: 'Resolved by the Manifold market creator',
+      };
+
+      // Independent answers resolve one by one; otherwise the market names the winning answer
+      const answer = answerId ? market.answers?.find(a => a.id === answerId) : undefined;
+      const result = answerId
+        ? answer?.resolution ?? (market.resolution === answerId ? 'YES' : market.resolution)
+        : market.resolution;
+
+      // MKT resolves to a probability and CANCEL refunds; neither has a winning side
+      if (result === 'YES' || result === 'NO') {
+        return { status: 'resolved', outcome: result, ...resolution };
+      }
+      if (answerId && result && result !== 'MKT' && result !== 'CANCEL') {
+        return { status: 'resolved', outcome: 'NO', ...resolution }; // another answer won
+      }
+
+      return { status: 'voided', ...resolution };
+    } catch (error) {
+      this.logger.error(`Failed to fetch Manifold outcome for ${externalId}:`, error);
+      throw error;
+    }
+  }
+
+  normalize(raw: RawMarket): NormalizedMarket {
+    const venue = VENUES.MANIFOLD;
+
+    return {
+      source: 'manifold',
+      externalId: raw.id,
+      question: raw.question,
+      yesPrice: raw.yesPrice,
+      noPrice: raw.noPrice,
+      volume: raw.volume,
+      liquidity: raw.liquidity,
+      endDate: raw.endDate,
+      lastChange24h: raw.lastChange24h,
+      tags: raw.tags,
+      description: raw.description,
+      exchanges: [
+        {
+          name: venue.name,
+          url: this.addUTMParams(raw.metadata?.url ?? venue.marketUrl(raw.id), 'manifold'),
+          oddsYes: raw.yesPrice,
+          oddsNo: raw.noPrice,
+          icon: venue.icon,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Split a multiple-choice market into one yes/no market per leading answer
+   */
+  private async fetchAnswerMarkets(market: ManifoldMarket): Promise<RawMarket[]> {
+    try {
+      const response = await this.httpClient.get<ManifoldMarketDetail>(
+        `/v0/market/${encodeURIComponent(market.id)}`,
+      );
+      const detail = response.data;
+
+      return (detail.answers || [])
+        .filter(answer => !answer.resolution)
+        .sort((a, b) => b.probability - a.probability)
+        .slice(0, MAX_ANSWERS_PER_MARKET)
+        .map(answer => this.toAnswerMarket(detail, answer));
+    } catch (error) {
+      this.logger.warn(`Skipping Manifold market ${market.id}, answers unavailable: ${error.message}`);
+      return [];
+    }
+  }
+
+  private toAnswerMarket(detail: ManifoldMarketDetail, answer: ManifoldAnswer): RawMarket {
+    return {
+      ...this.normalizeToRaw(detail, answer.probability),
+      id: `${detail.id}${ANSWER_ID_SEPARATOR}${answer.id}`,
+      question: `${detail.question} — ${answer.text}`,
+      metadata: { url: detail.url, contractId: detail.id, answerId: answer.id },
+    };
+  }
+
+  private normalizeToRaw(market: ManifoldMarket | ManifoldMarketDetail, probability: number): RawMarket {
+    const detail = market as ManifoldMarketDetail;
+
+    return {
+      id: market.id,
+      question: market.question,
+      yesPrice: probability,
+      noPrice: 1 - probability,
+      volume: market.volume24Hours, // play money (mana)
+      liquidity: market.totalLiquidity ?? 0,
+      endDate: new Date(market.closeTime!).toISOString(),
+      tags: ['play-money', ...(detail.groupSlugs || [])],
+      description: detail.textDescription,
+      metadata: {
+        url: market.url,
+        slug: market.slug,
+      },
+    };
+  }
+}
@@ -1,9 +1,12 @@
-import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { BaseConnector } from './base.connector';
-import { RawMarket, NormalizedMarket, ConnectorConfig, ConnectorHealth, ConnectorMetrics } from './types';
+import { MarketConnector } from './connector.registry';
+import { RedisService } from '../common/redis/redis.service';
+import { RawMarket, NormalizedMarket, ConnectorConfig, ConnectorHealth, ConnectorMetrics, MarketOutcome, FetchedMarkets, FetchedMarket } from './types';
 
-@Injectable()
+@MarketConnector({
+  environments: ['development', 'test'],
+})
 export class MockConnector extends BaseConnector {
   readonly name = 'mock' as const;
   readonly config: ConnectorConfig = {
@@ -16,15 +19,19 @@ export class MockConnector extends BaseConnector {
       maxRetries: 3,
       backoffMs: 1000,
     },
+    pagination: {
+      pageSize: 100,
+      maxPages: 1,
+    },
     timeout: 10000,
   };
 
-  constructor(configService: ConfigService) {
-    super(configService);
+  constructor(configService: ConfigService, redis: RedisService) {
+    super(configService, redis);
     this.initializeHttpClient();
   }
 
-  async fetchMarkets(params: { since?: Date }): Promise<RawMarket[]> {
+  async fetchMarkets(params: { since?: Date }): Promise<FetchedMarkets> {
     // Return mock data for testing
     const mockMarkets: RawMarket[] = [
       {
@@ -89,7 +96,29 @@ export class MockConnector extends BaseConnector {
       },
     ];
 
-    return mockMarkets;
+    return { markets: mockMarkets, rejected: [] };
+  }
+
+  async fetchMarket(externalId: string): Promise<FetchedMarket> {
+    const { markets } = await this.fetchMarkets({});
+    return { market: markets.find(m => m.id === externalId) ?? null, rejected: [] };
+  }
+
+  async fetchOutcome(externalId: string): Promise<MarketOutcome> {
+    // Settle ended mock markets on whichever side the price favoured
+    const { markets } = await this.fetchMarkets({});
+    const market = markets.find(m => m.id === externalId);
+
+    if (!market || new Date(market.endDate) > new Date()) {
+      return { status: 'pending' };
+    }
+
+    return {
+      status: 'resolved',
+      outcome: market.yesPrice >= 0.5 ? 'YES' : 'NO',
+      resolvedAt: new Date(market.endDate),
+      source: 'Mock exchange settlement',
+    };
   }
 
   normalize(raw: RawMarket): NormalizedMarket {
@@ -146,6 +175,9 @@ export class MockConnector extends BaseConnector {
       successfulRequests: 1,
       failedRequests: 0,
       averageLatency: 10,
+      throttledRequests: 0,
+      throttledMs: 0,
+      rateLimitedResponses: 0,
       lastUpdated: new Date(),
     };
   }
@@ -1,30 +1,43 @@
-import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { z } from 'zod';
 import { BaseConnector } from './base.connector';
-import { RawMarket, NormalizedMarket, ConnectorConfig } from './types';
-
-interface PolymarketMarket {
-  id: string;
-  question: string;
-  outcome_prices: {
-    'Yes': number;
-    'No': number;
-  };
-  volume: number;
-  liquidity: number;
-  end_date_iso: string;
-  price_change_24h: number;
-  tags: string[];
-  market_maker: string;
-  description: string;
+import { MarketConnector } from './connector.registry';
+import { RedisService } from '../common/redis/redis.service';
+import { RawMarket, NormalizedMarket, ConnectorConfig, MarketOutcome, MarketOutcomeOption, FetchedMarkets, FetchedMarket } from './types';
+
+const PolymarketMarketSchema = z.object({
+  id: z.string().min(1),
+  question: z.string().min(1),
+  // { Yes, No }, or one price per outcome for categorical markets
+  outcome_prices: z.record(z.number().min(0).max(1))
+    .refine(prices => Object.keys(prices).length >= 2, 'Expected at least two outcome prices'),
+  volume: z.number().nonnegative(),
+  liquidity: z.number().nonnegative(),
+  end_date_iso: z.string().datetime({ offset: true }),
+  price_change_24h: z.number().optional(),
+  tags: z.array(z.string()).nullish(),
+  market_maker: z.string().optional(),
+  description: z.string().optional(),
+});
+
+type PolymarketMarket = z.infer<typeof PolymarketMarketSchema>;
+
+interface PolymarketMarketDetail extends PolymarketMarket {
+  closed: boolean;
+  resolved?: boolean;
+  winning_outcome?: string | null; // 'Yes' | 'No', or the winning outcome's name
+  resolved_at?: string;
+  resolution_source?: string;
 }
 
 interface PolymarketResponse {
-  markets: PolymarketMarket[];
+  markets: unknown[]; // validated against PolymarketMarketSchema
   cursor?: string;
 }
 
-@Injectable()
+@MarketConnector({
+  capabilities: { multiOutcome: true },
+})
 export class PolymarketConnector extends BaseConnector {
   readonly name = 'polymarket' as const;
   readonly config: ConnectorConfig = {
@@ -37,33 +50,97 @@ export class PolymarketConnector extends BaseConnector {
       maxRetries: 3,
       backoffMs: 1000,
     },
+    pagination: {
+      pageSize: 100,
+      maxPages: Number(this.configService.get('POLYMARKET_MAX_PAGES', 50)),
+    },
     timeout: 10000,
   };
 
-  constructor(configService: ConfigService) {
-    super(configService);
+  constructor(configService: ConfigService, redis: RedisService) {
+    super(configService, redis);
     this.initializeHttpClient();
   }
 
-  async fetchMarkets(params: { since?: Date }): Promise<RawMarket[]> {
+  async fetchMarkets(params: { since?: Date }): Promise<FetchedMarkets> {
     try {
-      const queryParams = new URLSearchParams({
-        limit: '100',
-        active: 'true',
-        ...(params.since && { since: params.since.toISOString() }),
+      const markets = await this.fetchAllPages(async (cursor) => {
+        const queryParams = new URLSearchParams({
+          limit: String(this.config.pagination.pageSize),
+          active: 'true',
+          ...(params.since && { since: params.since.toISOString() }),
+          ...(cursor && { cursor }),
+        });
+
+        const response = await this.httpClient.get<PolymarketResponse>(
+          `/markets?${queryParams}`,
+        );
+
+        return {
+          items: response.data.markets,
+          cursor: response.data.cursor,
+        };
       });
 
-      const response = await this.httpClient.get<PolymarketResponse>(
-        `/markets?${queryParams}`,
-      );
+      const { valid, rejected } = this.validatePayloads(PolymarketMarketSchema, markets);
 
-      return response.data.markets.map(this.normalizeToRaw);
+      return { markets: valid.map(this.normalizeToRaw), rejected };
     } catch (error) {
       this.logger.error('Failed to fetch Polymarket data:', error);
       throw error;
     }
   }
 
+  async fetchMarket(externalId: string): Promise<FetchedMarket> {
+    try {
+      const response = await this.httpClient.get<unknown>(
+        `/markets/${encodeURIComponent(externalId)}`,
+      );
+      const { valid: [market], rejected } = this.validatePayloads(PolymarketMarketSchema, [response.data]);
+
+      return { market: market ? this.normalizeToRaw(market) : null, rejected };
+    } catch (error) {
+      this.logger.error(`Failed to fetch Polymarket market ${externalId}:`, error);
+      throw error;
+    }
+  }
+
+  async fetchOutcome(externalId: string): Promise<MarketOutcome> {
+    try {
+      const response = await this.httpClient.get<PolymarketMarketDetail>(
+        `/markets/${encodeURIComponent(externalId)}`,
+      );
+      const market = response.data;
+
+      if (!market.closed || !market.resolved) {
+        return { status: 'pending' };
+      }
+
+      const resolution = {
+        resolvedAt: market.resolved_at ? new Date(market.resolved_at) : undefined,
+        source: market.resolution_source,
+      };
+
+      // Markets settled without a winner (50/50 refunds) have no winning outcome
+      if (!market.winning_outcome) {
+        return { status: 'voided', ...resolution };
+      }
+
+      if (!this.isBinary(market)) {
+        return { status: 'resolved', winningOutcome: market.winning_outcome, ...resolution };
+      }
+
+      return {
+        status: 'resolved',
+        outcome: market.winning_outcome === 'Yes' ? 'YES' : 'NO',
+        ...resolution,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to fetch Polymarket outcome for ${externalId}:`, error);
+      throw error;
+    }
+  }
+
   normalize(raw: RawMarket): NormalizedMarket {
     return {
       source: 'polymarket',
@@ -76,6 +153,8 @@ export class PolymarketConnector extends BaseConnector {
       endDate: raw.endDate,
       lastChange24h: raw.lastChange24h,
       tags: raw.tags,
+      description: raw.description,
+      outcomes: raw.outcomes,
       exchanges: [
         {
           name: 'Polymarket',
@@ -88,19 +167,45 @@ export class PolymarketConnector extends BaseConnector {
     };
   }
 
-  private normalizeToRaw = (market: PolymarketMarket): RawMarket => ({
-    id: market.id,
-    question: market.question,
-    yesPrice: market.outcome_prices.Yes,
-    noPrice: market.outcome_prices.No,
-    volume: market.volume,
-    liquidity: market.liquidity,
-    endDate: market.end_date_iso,
-    lastChange24h: market.price_change_24h,
-    tags: market.tags || [],
-    metadata: {
-      marketMaker: market.market_maker,
+  private normalizeToRaw = (market: PolymarketMarket): RawMarket => {
+    const raw: RawMarket = {
+      id: market.id,
+      question: market.question,
+      yesPrice: market.outcome_prices.Yes,
+      noPrice: market.outcome_prices.No,
+      volume: market.volume,
+      liquidity: market.liquidity,
+      endDate: market.end_date_iso,
+      lastChange24h: market.price_change_24h,
+      tags: market.tags || [],
       description: market.description,
-    },
-  });
+      metadata: {
+        marketMaker: market.market_maker,
+      },
+    };
+
+    if (this.isBinary(market)) {
+      return raw;
+    }
+
+    // Outcome names are Polymarket's ids for them; the card headlines the leading one
+    const outcomes: MarketOutcomeOption[] = Object.entries(market.outcome_prices)
+      .map(([name, price]) => ({ id: name, label: name, price }))
+      .sort((a, b) => b.price - a.price);
+
+    return {
+      ...raw,
+      yesPrice: outcomes[0]?.price ?? 0,
+      noPrice: 1 - (outcomes[0]?.price ?? 0),
+      outcomes,
+    };
+  };
+
+  /**
+   * Yes/no markets price exactly the 'Yes' and 'No' outcomes
+   */
+  private isBinary(market: PolymarketMarket): boolean {
+    const names = Object.keys(market.outcome_prices || {});
+    return names.length === 2 && names.includes('Yes') && names.includes('No');
+  }
 }
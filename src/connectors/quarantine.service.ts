@@ -0,0 +1,99 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { ConnectorName, toSource } from './sources';
+import { RejectedPayload } from './types';
+import {
+  QuarantineListRequestSchema,
+  QuarantineListRequestDto,
+} from '../common/schemas/admin.schemas';
+
+// Vendor markets that stopped failing drop out after this
+const QUARANTINE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Stores vendor payloads that failed schema validation so drift is visible
+ * without digging through ingestion logs
+ */
+@Injectable()
+export class QuarantineService {
+  private readonly logger = new Logger(QuarantineService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Record rejected payloads, one row per vendor market with the latest payload and error
+   */
+  async quarantine(name: ConnectorName, rejected: RejectedPayload[]): Promise<number> {
+    if (rejected.length === 0) {
+      return 0;
+    }
+
+    const source = toSource(name);
+    const now = new Date();
+
+    try {
+      for (const item of rejected) {
+        const externalId = item.externalId ?? this.hashPayload(item.payload);
+        const payload = (item.payload ?? null) as Prisma.InputJsonValue;
+
+        await this.prisma.quarantinedMarket.upsert({
+          where: { source_externalId: { source, externalId } },
+          update: {
+            payload,
+            error: item.error,
+            occurrences: { increment: 1 },
+            lastSeenAt: now,
+          },
+          create: {
+            source,
+            externalId,
+            payload,
+            error: item.error,
+            firstSeenAt: now,
+            lastSeenAt: now,
+          },
+        });
+      }
+
+      await this.prisma.quarantinedMarket.deleteMany({
+        where: { lastSeenAt: { lt: new Date(now.getTime() - QUARANTINE_RETENTION_MS) } },
+      });
+
+      this.logger.warn(`Quarantined ${rejected.length} invalid ${name} payloads`);
+      return rejected.length;
+    } catch (error) {
+      this.logger.error(`Failed to quarantine ${name} payloads:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Most recently seen quarantined payloads, optionally for one source
+   */
+  async listQuarantined(query: QuarantineListRequestDto) {
+    const parsed = QuarantineListRequestSchema.safeParse(query);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors[0]?.message);
+    }
+
+    const { source, limit } = parsed.data;
+    const where: Prisma.QuarantinedMarketWhereInput = source ? { source } : {};
+
+    const [items, total] = await Promise.all([
+      this.prisma.quarantinedMarket.findMany({
+        where,
+        orderBy: { lastSeenAt: 'desc' },
+        take: limit,
+      }),
+      this.prisma.quarantinedMarket.count({ where }),
+    ]);
+
+    return { items, total };
+  }
+
+  private hashPayload(payload: unknown): string {
+    return crypto.createHash('sha1').update(JSON.stringify(payload ?? null)).digest('hex');
+  }
+}
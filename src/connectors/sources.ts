@@ -0,0 +1,44 @@
+import { Source } from '@prisma/client';
+
+/**
+ * Connector ids are the lowercase form of the Prisma `Source` enum, so adding a
+ * venue means adding an enum value, a `VENUES` entry and the connector itself
+ */
+export type ConnectorName = Lowercase<Source>;
+
+export const MARKET_SOURCES = Object.values(Source);
+
+export const toSource = (name: ConnectorName): Source => name.toUpperCase() as Source;
+
+export const toConnectorName = (source: Source): ConnectorName => source.toLowerCase() as ConnectorName;
+
+export const isConnectorName = (name: string): name is ConnectorName =>
+  MARKET_SOURCES.includes(name.toUpperCase() as Source);
+
+export interface VenueInfo {
+  name: string; // display name on exchange links
+  marketUrl: (externalId: string) => string;
+  icon?: string;
+}
+
+export const VENUES: Record<Source, VenueInfo> = {
+  POLYMARKET: {
+    name: 'Polymarket',
+    marketUrl: id => `https://polymarket.com/market/${id}`,
+    icon: 'https://polymarket.com/favicon.ico',
+  },
+  KALSHI: {
+    name: 'Kalshi',
+    marketUrl: id => `https://kalshi.com/markets/${id}`,
+    icon: 'https://kalshi.com/favicon.ico',
+  },
+  MANIFOLD: {
+    name: 'Manifold',
+    marketUrl: id => `https://manifold.markets/market/${id}`,
+    icon: 'https://manifold.markets/favicon.ico',
+  },
+  MOCK: {
+    name: 'Mock Exchange',
+    marketUrl: () => 'https://mock-exchange.com',
+  },
+};
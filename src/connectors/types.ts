@@ -1,3 +1,5 @@
+import { ConnectorName } from './sources';
+
 export interface RawMarket {
   id: string;
   question: string;
@@ -9,11 +11,12 @@ export interface RawMarket {
   lastChange24h?: number;
   tags: string[];
   description?: string;
+  outcomes?: MarketOutcomeOption[]; // categorical markets only
   metadata?: Record<string, any>;
 }
 
 export interface NormalizedMarket {
-  source: 'polymarket' | 'kalshi' | 'mock';
+  source: ConnectorName;
   externalId: string;
   question: string;
   yesPrice: number;
@@ -24,9 +27,32 @@ export interface NormalizedMarket {
   lastChange24h?: number;
   tags: string[];
   description?: string;
+  outcomes?: MarketOutcomeOption[]; // categorical markets; yesPrice/noPrice track the leading outcome
   exchanges: ExchangeInfo[];
 }
 
+export interface MarketOutcomeOption {
+  id: string; // vendor's outcome id, stable across fetches
+  label: string;
+  price: number;
+}
+
+export interface MarketChange {
+  id: string; // our market id
+  externalId: string;
+  yesPrice: number;
+  noPrice: number;
+  volume: number;
+}
+
+// What storing a batch did; each market is in one list, price changes winning over metadata
+export interface MarketChangeSet {
+  created: MarketChange[];
+  priceChanged: MarketChange[];
+  metadataChanged: MarketChange[];
+  unchanged: MarketChange[];
+}
+
 export interface ExchangeInfo {
   name: string;
   url: string;
@@ -35,6 +61,14 @@ export interface ExchangeInfo {
   icon?: string;
 }
 
+export interface MarketOutcome {
+  status: 'resolved' | 'voided' | 'pending';
+  outcome?: 'YES' | 'NO'; // set when a yes/no market is 'resolved'
+  winningOutcome?: string; // set instead when a categorical market is 'resolved'
+  resolvedAt?: Date;
+  source?: string; // vendor's description of how/where the market was settled
+}
+
 export interface ConnectorConfig {
   apiUrl: string;
   apiKey?: string;
@@ -46,35 +80,76 @@ export interface ConnectorConfig {
     maxRetries: number;
     backoffMs: number;
   };
+  pagination: {
+    pageSize: number;
+    maxPages: number; // cap per run; remaining pages are picked up by the next run
+  };
   timeout: number;
 }
 
+export interface MarketPage<T> {
+  items: T[];
+  cursor?: string;
+}
+
 export interface ConnectorHealth {
   status: 'healthy' | 'degraded' | 'down';
   lastSuccess?: Date;
   lastError?: string;
   errorCount: number;
   latency?: number;
+  breakerState?: BreakerState;
 }
 
+// CLOSED runs normally, OPEN skips the connector, HALF_OPEN lets one probe run through
+export const BREAKER_STATES = ['CLOSED', 'OPEN', 'HALF_OPEN'] as const;
+export type BreakerState = typeof BREAKER_STATES[number];
+
 export interface ConnectorMetrics {
   totalRequests: number;
   successfulRequests: number;
   failedRequests: number;
   averageLatency: number;
+  throttledRequests: number; // requests held back by the rate limiter
+  throttledMs: number; // total time spent waiting for a token or a Retry-After pause
+  rateLimitedResponses: number; // 429s returned by the vendor
   lastUpdated: Date;
 }
 
+export interface ConnectorCapabilities {
+  outcomes: boolean; // fetchOutcome can settle markets
+  streaming: boolean; // pushes price updates instead of being polled
+  multiOutcome: boolean; // lists categorical markets
+}
+
 export abstract class Connector {
-  abstract readonly name: 'polymarket' | 'kalshi' | 'mock';
+  abstract readonly name: ConnectorName;
   abstract readonly config: ConnectorConfig;
   
-  abstract fetchMarkets(params: { since?: Date }): Promise<RawMarket[]>;
+  abstract fetchMarkets(params: { since?: Date }): Promise<FetchedMarkets>;
+  abstract fetchMarket(externalId: string): Promise<FetchedMarket>;
   abstract normalize(raw: RawMarket): NormalizedMarket;
+  abstract fetchOutcome(externalId: string): Promise<MarketOutcome>;
   abstract getHealth(): Promise<ConnectorHealth>;
   abstract getMetrics(): Promise<ConnectorMetrics>;
 }
 
+export interface FetchedMarkets {
+  markets: RawMarket[];
+  rejected: RejectedPayload[]; // payloads that failed validation, for quarantine
+}
+
+export interface FetchedMarket {
+  market: RawMarket | null; // null when the payload was rejected or the market isn't one we list
+  rejected: RejectedPayload[];
+}
+
+export interface RejectedPayload {
+  externalId?: string; // vendor id when the payload has one
+  payload: unknown; // raw vendor JSON
+  error: string;
+}
+
 export interface ConnectorError extends Error {
   code: string;
   statusCode?: number;
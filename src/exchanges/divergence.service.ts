@@ -0,0 +1,214 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import {
+  DivergenceDto,
+  DivergenceListRequestSchema,
+  DivergenceListRequestDto,
+  DivergenceHistoryRequestSchema,
+  DivergenceHistoryRequestDto,
+} from '../common/schemas/exchanges.schemas';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Divergence history is kept for the longest range the history endpoint serves
+const DIVERGENCE_RETENTION_MS = 90 * 24 * HOUR_MS;
+const DIVERGENCE_JOB_ID = 'divergence';
+
+const marketSelect = { id: true, source: true, question: true, yesPrice: true, noPrice: true };
+
+@Injectable()
+export class DivergenceService {
+  private readonly logger = new Logger(DivergenceService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private realtimeService: RealtimeService,
+    @InjectQueue('exchanges') private exchangesQueue: Queue,
+  ) {}
+
+  /**
+   * Queue a divergence check, batching triggers from back-to-back ingestions:
+   * the fixed job id makes triggers during the delay share the queued check
+   */
+  async triggerDivergenceCheck(): Promise<void> {
+    await this.exchangesQueue.add('divergence', {}, {
+      jobId: DIVERGENCE_JOB_ID,
+      delay: 1000,
+      removeOnComplete: true,
+      removeOnFail: true,
+    });
+  }
+
+  /**
+   * Recompute the implied-probability spread of every confirmed match, record changes
+   * and announce gaps that just crossed the alert threshold
+   */
+  async computeDivergences(): Promise<{ pairs: number; recorded: number; alerts: number }> {
+    try {
+      const alertSpread = this.getAlertSpread();
+      const matches = await this.prisma.marketMatch.findMany({
+        where: { status: 'CONFIRMED' },
+        include: {
+          primary: { select: marketSelect },
+          duplicate: { select: marketSelect },
+        },
+      });
+
+      const now = new Date();
+      const alerts: DivergenceDto[] = [];
+      let recorded = 0;
+
+      await this.prisma.executeTransaction(async (prisma) => {
+        for (const match of matches) {
+          const primaryProb = this.impliedProbability(match.primary.yesPrice, match.primary.noPrice);
+          const duplicateProb = this.impliedProbability(match.duplicate.yesPrice, match.duplicate.noPrice);
+          const spread = Math.round((primaryProb - duplicateProb) * 10000) / 10000;
+
+          // History is deduplicated like price snapshots: only changes are stored
+          if (match.spread === spread) continue;
+
+          await prisma.marketDivergence.create({
+            data: { matchId: match.id, primaryProb, duplicateProb, spread, capturedAt: now },
+          });
+          await prisma.marketMatch.update({
+            where: { id: match.id },
+            data: { spread, spreadUpdatedAt: now },
+          });
+          recorded++;
+
+          const wasWide = match.spread !== null && Math.abs(match.spread) >= alertSpread;
+          if (Math.abs(spread) >= alertSpread && !wasWide) {
+            alerts.push(this.toDivergenceDto({ ...match, spread, spreadUpdatedAt: now }));
+          }
+        }
+      });
+
+      for (const divergence of alerts) {
+        await this.realtimeService.broadcastDivergence(divergence);
+      }
+
+      await this.prisma.marketDivergence.deleteMany({
+        where: { capturedAt: { lt: new Date(now.getTime() - DIVERGENCE_RETENTION_MS) } },
+      });
+
+      this.logger.log(`Divergences computed: ${matches.length} pairs, ${recorded} recorded, ${alerts.length} alerts`);
+
+      return {
+        pairs: matches.length,
+        recorded,
+        alerts: alerts.length,
+      };
+    } catch (error) {
+      this.logger.error('Failed to compute divergences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Current spreads of confirmed matches, widest first
+   */
+  async getDivergences(query: DivergenceListRequestDto): Promise<DivergenceDto[]> {
+    const parsed = DivergenceListRequestSchema.safeParse(query);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors[0]?.message ?? 'Invalid divergence query');
+    }
+
+    const { minSpread, limit } = parsed.data;
+    const matches = await this.prisma.marketMatch.findMany({
+      where: {
+        status: 'CONFIRMED',
+        spread: { not: null },
+        OR: [{ spread: { gte: minSpread } }, { spread: { lte: -minSpread } }],
+      },
+      include: {
+        primary: { select: marketSelect },
+        duplicate: { select: marketSelect },
+      },
+    });
+
+    return matches
+      .map(match => this.toDivergenceDto(match))
+      .sort((a, b) => Math.abs(b.spread) - Math.abs(a.spread))
+      .slice(0, limit);
+  }
+
+  /**
+   * Recorded spread changes for a match, oldest first
+   */
+  async getDivergenceHistory(matchId: string, query: DivergenceHistoryRequestDto) {
+    const parsed = DivergenceHistoryRequestSchema.safeParse(query);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors[0]?.message ?? 'Invalid divergence history query');
+    }
+
+    const match = await this.prisma.marketMatch.findUnique({
+      where: { id: matchId },
+      select: { id: true },
+    });
+
+    if (!match) {
+      throw new NotFoundException('Match not found');
+    }
+
+    const points = await this.prisma.marketDivergence.findMany({
+      where: {
+        matchId,
+        capturedAt: { gte: new Date(Date.now() - parsed.data.hours * HOUR_MS) },
+      },
+      orderBy: { capturedAt: 'asc' },
+      select: { primaryProb: true, duplicateProb: true, spread: true, capturedAt: true },
+    });
+
+    return {
+      matchId,
+      points: points.map(point => ({
+        t: point.capturedAt.toISOString(),
+        primaryProb: point.primaryProb,
+        duplicateProb: point.duplicateProb,
+        spread: point.spread,
+      })),
+    };
+  }
+
+  /**
+   * YES price normalized so both sides sum to 1, removing each exchange's overround
+   */
+  impliedProbability(yesPrice: number, noPrice: number): number {
+    const total = yesPrice + noPrice;
+    return total > 0 ? yesPrice / total : yesPrice;
+  }
+
+  private toDivergenceDto(match: {
+    id: string;
+    spread: number | null;
+    spreadUpdatedAt: Date | null;
+    primary: { id: string; source: string; question: string; yesPrice: number; noPrice: number };
+    duplicate: { id: string; source: string; yesPrice: number; noPrice: number };
+  }): DivergenceDto {
+    return {
+      matchId: match.id,
+      question: match.primary.question,
+      primary: {
+        marketId: match.primary.id,
+        source: match.primary.source,
+        probability: this.impliedProbability(match.primary.yesPrice, match.primary.noPrice),
+      },
+      duplicate: {
+        marketId: match.duplicate.id,
+        source: match.duplicate.source,
+        probability: this.impliedProbability(match.duplicate.yesPrice, match.duplicate.noPrice),
+      },
+      spread: match.spread ?? 0,
+      updatedAt: match.spreadUpdatedAt?.toISOString() ?? null,
+    };
+  }
+
+  private getAlertSpread(): number {
+    return Number(this.configService.get('DIVERGENCE_ALERT_SPREAD', 0.05));
+  }
+}
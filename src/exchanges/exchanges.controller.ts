@@ -1,12 +1,151 @@
-import { Controller, Get, Query, UseGuards, Request } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { Controller, Get, Post, Body, Param, Query, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { ExchangesService } from './exchanges.service';
+import { MatchingService } from './matching.service';
+import { DivergenceService } from './divergence.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { MarketMatchListRequestDto } from '../common/schemas/admin.schemas';
+import {
+  MarketPairRequestDto,
+  DivergenceListRequestDto,
+  DivergenceHistoryRequestDto,
+} from '../common/schemas/exchanges.schemas';
 
 @ApiTags('exchanges')
 @Controller('exchanges')
 export class ExchangesController {
-  constructor(private exchangesService: ExchangesService) {}
+  constructor(
+    private exchangesService: ExchangesService,
+    private matchingService: MatchingService,
+    private divergenceService: DivergenceService,
+  ) {}
+
+  // Match and divergence routes are declared before ':id' so they aren't captured by it
+
+  @Get('divergences')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get current price gaps between exchanges listing the same market' })
+  @ApiQuery({ name: 'minSpread', required: false, type: Number, description: 'Minimum absolute gap in implied probability (0-1)' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Divergences retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getDivergences(@Query() query: DivergenceListRequestDto) {
+    const divergences = await this.divergenceService.getDivergences(query);
+
+    return {
+      success: true,
+      divergences,
+    };
+  }
+
+  @Get('divergences/:id/history')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the spread history of a matched market pair' })
+  @ApiQuery({ name: 'hours', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Divergence history retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  async getDivergenceHistory(
+    @Param('id') matchId: string,
+    @Query() query: DivergenceHistoryRequestDto,
+  ) {
+    const history = await this.divergenceService.getDivergenceHistory(matchId, query);
+
+    return {
+      success: true,
+      ...history,
+    };
+  }
+
+  @Post('matches')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Declare two markets as the same question on different exchanges (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Market pair declared and merged' })
+  @ApiResponse({ status: 400, description: 'Invalid pair' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async declareMatch(@Body() body: MarketPairRequestDto, @Request() req) {
+    const match = await this.matchingService.declareMatch(body, req.user.sub);
+
+    return {
+      success: true,
+      match,
+    };
+  }
+
+  @Get('matches')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List cross-exchange market matches for review (Admin only)' })
+  @ApiQuery({ name: 'status', required: false, enum: ['PENDING', 'CONFIRMED', 'REJECTED'] })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Matches retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getMatches(@Query() query: MarketMatchListRequestDto) {
+    const matches = await this.matchingService.listMatches(query);
+
+    return {
+      success: true,
+      matches,
+    };
+  }
+
+  @Post('matches/scan')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Propose matches between markets on different exchanges (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Matching completed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async scanMatches() {
+    const result = await this.matchingService.findMatches();
+
+    return {
+      success: true,
+      ...result,
+    };
+  }
+
+  @Post('matches/:id/confirm')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Confirm a match and merge the duplicate into one card (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Match confirmed' })
+  @ApiResponse({ status: 400, description: 'Market already merged with another market' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  async confirmMatch(@Param('id') matchId: string, @Request() req) {
+    const match = await this.matchingService.confirmMatch(matchId, req.user.sub);
+
+    return {
+      success: true,
+      match,
+    };
+  }
+
+  @Post('matches/:id/reject')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Reject a match, unmerging it if it was confirmed (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Match rejected' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  async rejectMatch(@Param('id') matchId: string, @Request() req) {
+    const match = await this.matchingService.rejectMatch(matchId, req.user.sub);
+
+    return {
+      success: true,
+      match,
+    };
+  }
 
   @Get(':id')
   @UseGuards(JwtAuthGuard)
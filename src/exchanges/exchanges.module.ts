@@ -1,16 +1,22 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { ExchangesService } from './exchanges.service';
+import { MatchingService } from './matching.service';
+import { DivergenceService } from './divergence.service';
 import { ExchangesController } from './exchanges.controller';
 import { PrismaModule } from '../common/prisma/prisma.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { JobsModule } from '../jobs/jobs.module';
 import { ConfigModule } from '@nestjs/config';
 
 @Module({
   imports: [
     PrismaModule,
     ConfigModule,
+    RealtimeModule,
+    forwardRef(() => JobsModule),
   ],
-  providers: [ExchangesService],
+  providers: [ExchangesService, MatchingService, DivergenceService],
   controllers: [ExchangesController],
-  exports: [ExchangesService],
+  exports: [ExchangesService, MatchingService, DivergenceService],
 })
 export class ExchangesModule {}
@@ -1,6 +1,7 @@
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../common/prisma/prisma.service';
 import { ConfigService } from '@nestjs/config';
+import { VENUES } from '../connectors/sources';
 
 @Injectable()
 export class ExchangesService {
@@ -52,20 +53,13 @@ export class ExchangesService {
 
       // Add default exchanges if none exist
       if (enhancedExchanges.length === 0) {
+        const venue = VENUES[market.source];
         enhancedExchanges.push({
-          name: market.source === 'POLYMARKET' ? 'Polymarket' : 'Kalshi',
-          url: this.addUTMParams(
-            market.source === 'POLYMARKET' 
-              ? `https://polymarket.com/market/${market.sourceId}`
-              : `https://kalshi.com/markets/${market.sourceId}`,
-            market.source,
-            userId
-          ),
+          name: venue.name,
+          url: this.addUTMParams(venue.marketUrl(market.sourceId), market.source, userId),
           oddsYes: market.yesPrice,
           oddsNo: market.noPrice,
-          icon: market.source === 'POLYMARKET' 
-            ? 'https://polymarket.com/favicon.ico'
-            : 'https://kalshi.com/favicon.ico',
+          icon: venue.icon,
         });
       }
 
@@ -0,0 +1,520 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { RedisService } from '../common/redis/redis.service';
+import { ExchangeInfo } from '../connectors/types';
+import {
+  MarketMatchListRequestSchema,
+  MarketMatchListRequestDto,
+} from '../common/schemas/admin.schemas';
+import { MarketPairRequestSchema, MarketPairRequestDto } from '../common/schemas/exchanges.schemas';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Score blend; the question carries most of the signal, dates and tags break ties
+const QUESTION_WEIGHT = 0.6;
+const DATE_WEIGHT = 0.25;
+const TAG_WEIGHT = 0.15;
+
+// Pairs below this question similarity are never proposed, whatever the other scores
+const MIN_QUESTION_SCORE = 0.5;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'will', 'be', 'is', 'are', 'was', 'does', 'do', 'there',
+  'of', 'in', 'on', 'at', 'by', 'to', 'for', 'and', 'or', 'than', 'this', 'that',
+  'before', 'after', 'end', 'any',
+]);
+
+const MONTHS: Record<string, string> = {
+  january: 'jan', february: 'feb', march: 'mar', april: 'apr', june: 'jun', july: 'jul',
+  august: 'aug', september: 'sep', sept: 'sep', october: 'oct', november: 'nov', december: 'dec',
+};
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3, m: 1e6, million: 1e6, b: 1e9, bn: 1e9, billion: 1e9,
+};
+
+export interface MatchCandidate {
+  id: string;
+  source: string;
+  question: string;
+  tags: string[];
+  endDate: Date;
+  liquidity: number;
+}
+
+export interface MatchScore {
+  score: number;
+  questionScore: number;
+  dateScore: number;
+  tagScore: number;
+}
+
+export interface MatchProposal extends MatchScore {
+  primaryId: string;
+  duplicateId: string;
+}
+
+@Injectable()
+export class MatchingService {
+  private readonly logger = new Logger(MatchingService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Propose matches between active markets listed on different exchanges
+   */
+  async findMatches(): Promise<{ compared: number; proposed: number }> {
+    try {
+      const [markets, existing] = await Promise.all([
+        this.prisma.marketItem.findMany({
+          // Categorical markets have no single yes/no price to compare across exchanges
+          where: { eligible: true, endDate: { gt: new Date() }, outcomes: { equals: Prisma.DbNull } },
+          select: { id: true, source: true, question: true, tags: true, endDate: true, liquidity: true },
+        }),
+        this.prisma.marketMatch.findMany({
+          select: { primaryId: true, duplicateId: true, status: true },
+        }),
+      ]);
+
+      // Rejected pairs stay rejected; markets with a live match aren't proposed again
+      const knownPairs = new Set(existing.map(match => this.pairKey(match.primaryId, match.duplicateId)));
+      const matched = new Set(
+        existing
+          .filter(match => match.status !== 'REJECTED')
+          .flatMap(match => [match.primaryId, match.duplicateId]),
+      );
+
+      const candidates = markets.filter(market => !matched.has(market.id));
+      const proposals = this.proposeMatches(candidates, knownPairs);
+
+      if (proposals.length > 0) {
+        await this.prisma.marketMatch.createMany({
+          data: proposals,
+          skipDuplicates: true,
+        });
+      }
+
+      this.logger.log(`Market matching: ${candidates.length} markets compared, ${proposals.length} matches proposed`);
+
+      return {
+        compared: candidates.length,
+        proposed: proposals.length,
+      };
+    } catch (error) {
+      this.logger.error('Market matching failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pair up markets from different sources, best score first, each market at most once
+   */
+  proposeMatches(markets: MatchCandidate[], knownPairs: Set<string> = new Set()): MatchProposal[] {
+    const windowMs = this.getDateWindowDays() * DAY_MS;
+    const minScore = Number(this.configService.get('MATCH_MIN_SCORE', 0.65));
+    const sorted = [...markets].sort((a, b) => a.endDate.getTime() - b.endDate.getTime());
+    const tokens = new Map(sorted.map(market => [market.id, this.normalizeQuestion(market.question)]));
+    const scored: Array<{ a: MatchCandidate; b: MatchCandidate; score: MatchScore }> = [];
+
+    // Sorted by end date, so only neighbours inside the date window need comparing
+    for (let i = 0; i < sorted.length; i++) {
+      const a = sorted[i];
+      for (let j = i + 1; j < sorted.length; j++) {
+        const b = sorted[j];
+        if (b.endDate.getTime() - a.endDate.getTime() > windowMs) break;
+        if (a.source === b.source || knownPairs.has(this.pairKey(a.id, b.id))) continue;
+
+        const score = this.scorePair(a, b, tokens.get(a.id)!, tokens.get(b.id)!);
+        if (score && score.score >= minScore) {
+          scored.push({ a, b, score });
+        }
+      }
+    }
+
+    const used = new Set<string>();
+    const proposals: MatchProposal[] = [];
+
+    for (const { a, b, score } of scored.sort((x, y) => y.score.score - x.score.score)) {
+      if (used.has(a.id) || used.has(b.id)) continue;
+      used.add(a.id);
+      used.add(b.id);
+
+      // The deeper market keeps the card
+      const [primary, duplicate] = b.liquidity > a.liquidity ? [b, a] : [a, b];
+      proposals.push({ primaryId: primary.id, duplicateId: duplicate.id, ...score });
+    }
+
+    return proposals;
+  }
+
+  /**
+   * Score two markets as the same question; null when they can't be a match
+   */
+  scorePair(
+    a: Pick<MatchCandidate, 'question' | 'tags' | 'endDate'>,
+    b: Pick<MatchCandidate, 'question' | 'tags' | 'endDate'>,
+    tokensA: string[] = this.normalizeQuestion(a.question),
+    tokensB: string[] = this.normalizeQuestion(b.question),
+  ): MatchScore | null {
+    const windowDays = this.getDateWindowDays();
+    const daysApart = Math.abs(a.endDate.getTime() - b.endDate.getTime()) / DAY_MS;
+    if (daysApart > windowDays) return null;
+
+    const questionScore = this.jaccard(tokensA, tokensB);
+    if (questionScore < MIN_QUESTION_SCORE) return null;
+
+    const dateScore = 1 - daysApart / windowDays;
+    // Tags are vendor-specific, so a market without any is neutral rather than a mismatch
+    const tagScore = a.tags.length === 0 || b.tags.length === 0
+      ? 0.5
+      : this.jaccard(a.tags.map(tag => tag.toLowerCase()), b.tags.map(tag => tag.toLowerCase()));
+
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+
+    return {
+      score: round(QUESTION_WEIGHT * questionScore + DATE_WEIGHT * dateScore + TAG_WEIGHT * tagScore),
+      questionScore: round(questionScore),
+      dateScore: round(dateScore),
+      tagScore: round(tagScore),
+    };
+  }
+
+  /**
+   * Reduce a question to comparable tokens: lowercase, no punctuation or filler words,
+   * "$100k" and "100,000" both become "100000", month names are abbreviated
+   */
+  normalizeQuestion(question: string): string[] {
+    const text = question
+      .toLowerCase()
+      .replace(/(\d),(?=\d{3}\b)/g, '$1')
+      .replace(/(\d+(?:\.\d+)?)\s*(k|thousand|m|million|bn|b|billion)\b/g, (_, value, unit) =>
+        String(Math.round(parseFloat(value) * MULTIPLIERS[unit])),
+      )
+      .replace(/(\d+)(st|nd|rd|th)\b/g, '$1')
+      .replace(/%/g, ' percent ')
+      .replace(/[^a-z0-9.]+/g, ' ')
+      .replace(/\.(?!\d)|(?<!\d)\./g, ' ');
+
+    const tokens = text
+      .split(/\s+/)
+      .filter(token => token && !STOPWORDS.has(token))
+      .map(token => MONTHS[token] ?? token)
+      .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+
+    return Array.from(new Set(tokens));
+  }
+
+  /**
+   * Primary's own exchanges plus the duplicate's, carrying the duplicate's current odds
+   */
+  mergeExchanges(
+    primaryExchanges: ExchangeInfo[],
+    duplicate: { exchanges: ExchangeInfo[]; yesPrice: number; noPrice: number },
+  ): ExchangeInfo[] {
+    return [
+      ...this.withoutExchanges(primaryExchanges, duplicate.exchanges),
+      ...duplicate.exchanges.map(exchange => ({
+        ...exchange,
+        oddsYes: duplicate.yesPrice,
+        oddsNo: duplicate.noPrice,
+      })),
+    ];
+  }
+
+  /**
+   * Re-merge confirmed matches; ingestion only refreshes each market's own exchange entry
+   */
+  async syncMergedExchanges(): Promise<{ matches: number; updated: number }> {
+    try {
+      const matches = await this.prisma.marketMatch.findMany({
+        where: { status: 'CONFIRMED' },
+        include: {
+          primary: { select: { id: true, exchanges: true } },
+          duplicate: { select: { id: true, exchanges: true, yesPrice: true, noPrice: true, eligible: true } },
+        },
+      });
+
+      let updated = 0;
+      await this.prisma.executeTransaction(async (prisma) => {
+        for (const match of matches) {
+          const current = (match.primary.exchanges as unknown as ExchangeInfo[]) || [];
+          const merged = this.mergeExchanges(current, {
+            exchanges: (match.duplicate.exchanges as unknown as ExchangeInfo[]) || [],
+            yesPrice: match.duplicate.yesPrice,
+            noPrice: match.duplicate.noPrice,
+          });
+
+          if (JSON.stringify(merged) !== JSON.stringify(current)) {
+            await prisma.marketItem.update({
+              where: { id: match.primaryId },
+              data: { exchanges: merged as any },
+            });
+            updated++;
+          }
+          if (match.duplicate.eligible) {
+            await prisma.marketItem.update({
+              where: { id: match.duplicateId },
+              data: { eligible: false },
+            });
+          }
+        }
+      });
+
+      this.logger.log(`Merged exchanges synced: ${matches.length} confirmed matches, ${updated} updated`);
+
+      return {
+        matches: matches.length,
+        updated,
+      };
+    } catch (error) {
+      this.logger.error('Failed to sync merged exchanges:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List matches for review, best score first
+   */
+  async listMatches(query: MarketMatchListRequestDto) {
+    const parsed = MarketMatchListRequestSchema.safeParse(query);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors[0]?.message ?? 'Invalid match query');
+    }
+
+    const marketSelect = {
+      id: true,
+      source: true,
+      question: true,
+      endDate: true,
+      yesPrice: true,
+      tags: true,
+    };
+
+    return this.prisma.marketMatch.findMany({
+      where: { status: parsed.data.status },
+      orderBy: [{ score: 'desc' }, { createdAt: 'asc' }],
+      take: parsed.data.limit,
+      include: {
+        primary: { select: marketSelect },
+        duplicate: { select: marketSelect },
+      },
+    });
+  }
+
+  /**
+   * Confirm a match: merge the duplicate's odds into the primary card and hide the duplicate
+   */
+  async confirmMatch(matchId: string, adminId: string) {
+    const match = await this.prisma.marketMatch.findUnique({
+      where: { id: matchId },
+      include: {
+        primary: { select: { exchanges: true } },
+        duplicate: { select: { exchanges: true, yesPrice: true, noPrice: true } },
+      },
+    });
+
+    if (!match) {
+      throw new NotFoundException('Match not found');
+    }
+    if (match.status === 'CONFIRMED') {
+      return match;
+    }
+
+    const conflicting = await this.prisma.marketMatch.findFirst({
+      where: {
+        id: { not: matchId },
+        status: 'CONFIRMED',
+        OR: [
+          { primaryId: { in: [match.primaryId, match.duplicateId] } },
+          { duplicateId: { in: [match.primaryId, match.duplicateId] } },
+        ],
+      },
+      select: { id: true },
+    });
+
+    if (conflicting) {
+      throw new BadRequestException('Market is already merged with another market');
+    }
+
+    const merged = this.mergeExchanges((match.primary.exchanges as unknown as ExchangeInfo[]) || [], {
+      exchanges: (match.duplicate.exchanges as unknown as ExchangeInfo[]) || [],
+      yesPrice: match.duplicate.yesPrice,
+      noPrice: match.duplicate.noPrice,
+    });
+    const reviewedAt = new Date();
+
+    const confirmed = await this.prisma.executeTransaction(async (prisma) => {
+      // Competing proposals for either market are settled by this decision
+      await prisma.marketMatch.updateMany({
+        where: {
+          id: { not: matchId },
+          status: 'PENDING',
+          OR: [
+            { primaryId: { in: [match.primaryId, match.duplicateId] } },
+            { duplicateId: { in: [match.primaryId, match.duplicateId] } },
+          ],
+        },
+        data: { status: 'REJECTED', reviewedBy: adminId, reviewedAt },
+      });
+      await prisma.marketItem.update({
+        where: { id: match.primaryId },
+        data: { exchanges: merged as any },
+      });
+      await prisma.marketItem.update({
+        where: { id: match.duplicateId },
+        data: { eligible: false },
+      });
+
+      return prisma.marketMatch.update({
+        where: { id: matchId },
+        data: { status: 'CONFIRMED', reviewedBy: adminId, reviewedAt },
+      });
+    });
+
+    await this.invalidateMarkets(match.primaryId, match.duplicateId);
+    this.logger.log(`Match ${matchId} confirmed by ${adminId}: ${match.duplicateId} merged into ${match.primaryId}`);
+
+    return confirmed;
+  }
+
+  /**
+   * Declare two markets as the same question and confirm the pair straight away
+   */
+  async declareMatch(body: MarketPairRequestDto, adminId: string) {
+    const parsed = MarketPairRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors[0]?.message ?? 'Invalid market pair');
+    }
+
+    const { primaryId, duplicateId } = parsed.data;
+    const markets = await this.prisma.marketItem.findMany({
+      where: { id: { in: [primaryId, duplicateId] } },
+      select: { id: true, source: true, question: true, tags: true, endDate: true },
+    });
+    const primary = markets.find(market => market.id === primaryId);
+    const duplicate = markets.find(market => market.id === duplicateId);
+
+    if (!primary || !duplicate) {
+      throw new NotFoundException('Market not found');
+    }
+    if (primary.source === duplicate.source) {
+      throw new BadRequestException('Paired markets must be listed on different exchanges');
+    }
+
+    // Reuse a proposal for the same pair in either direction rather than duplicating it
+    const existing = await this.prisma.marketMatch.findFirst({
+      where: {
+        OR: [
+          { primaryId, duplicateId },
+          { primaryId: duplicateId, duplicateId: primaryId },
+        ],
+      },
+      select: { id: true, primaryId: true, status: true },
+    });
+
+    let matchId = existing?.id;
+    if (existing) {
+      if (existing.status === 'CONFIRMED' && existing.primaryId !== primaryId) {
+        // Unmerge before swapping which market keeps the card
+        await this.rejectMatch(existing.id, adminId);
+      }
+      await this.prisma.marketMatch.update({
+        where: { id: existing.id },
+        data: { primaryId, duplicateId, status: 'PENDING' },
+      });
+    } else {
+      // Admins can pair markets the matcher wouldn't, so the score is informational only
+      const score = this.scorePair(primary, duplicate) ?? { score: 0, questionScore: 0, dateScore: 0, tagScore: 0 };
+      const created = await this.prisma.marketMatch.create({
+        data: { primaryId, duplicateId, ...score },
+        select: { id: true },
+      });
+      matchId = created.id;
+    }
+
+    return this.confirmMatch(matchId!, adminId);
+  }
+
+  /**
+   * Reject a match; a confirmed one is unmerged and the duplicate returns to the feed
+   */
+  async rejectMatch(matchId: string, adminId: string) {
+    const match = await this.prisma.marketMatch.findUnique({
+      where: { id: matchId },
+      include: {
+        primary: { select: { exchanges: true } },
+        duplicate: { select: { exchanges: true } },
+      },
+    });
+
+    if (!match) {
+      throw new NotFoundException('Match not found');
+    }
+
+    const rejected = await this.prisma.executeTransaction(async (prisma) => {
+      if (match.status === 'CONFIRMED') {
+        await prisma.marketItem.update({
+          where: { id: match.primaryId },
+          data: {
+            exchanges: this.withoutExchanges(
+              (match.primary.exchanges as unknown as ExchangeInfo[]) || [],
+              (match.duplicate.exchanges as unknown as ExchangeInfo[]) || [],
+            ) as any,
+          },
+        });
+        await prisma.marketItem.update({
+          where: { id: match.duplicateId },
+          data: { eligible: true },
+        });
+      }
+
+      return prisma.marketMatch.update({
+        where: { id: matchId },
+        data: { status: 'REJECTED', reviewedBy: adminId, reviewedAt: new Date() },
+      });
+    });
+
+    if (match.status === 'CONFIRMED') {
+      await this.invalidateMarkets(match.primaryId, match.duplicateId);
+    }
+    this.logger.log(`Match ${matchId} rejected by ${adminId}`);
+
+    return rejected;
+  }
+
+  private withoutExchanges(exchanges: ExchangeInfo[], removed: ExchangeInfo[]): ExchangeInfo[] {
+    const names = new Set(removed.map(exchange => exchange.name));
+    return exchanges.filter(exchange => !names.has(exchange.name));
+  }
+
+  private jaccard(a: string[], b: string[]): number {
+    const setA = new Set(a);
+    const setB = new Set(b);
+    if (setA.size === 0 && setB.size === 0) return 0;
+
+    let intersection = 0;
+    setA.forEach(item => {
+      if (setB.has(item)) intersection++;
+    });
+
+    return intersection / (setA.size + setB.size - intersection);
+  }
+
+  private pairKey(a: string, b: string): string {
+    return a < b ? `${a}:${b}` : `${b}:${a}`;
+  }
+
+  private getDateWindowDays(): number {
+    return Number(this.configService.get('MATCH_DATE_WINDOW_DAYS', 3));
+  }
+
+  private async invalidateMarkets(...marketIds: string[]): Promise<void> {
+    await Promise.all(marketIds.map(id => this.redis.del(`market:${id}`)));
+  }
+}
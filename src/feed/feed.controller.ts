@@ -1,10 +1,19 @@
-import { Controller, Get, Post, Query, UseGuards, Request } from '@nestjs/common';
+import { Controller, Get, Post, Query, Param, UseGuards, Request } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { Source } from '@prisma/client';
 import { FeedService } from './feed.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
 import { RateLimitService } from '../common/rate-limit/rate-limit.service';
 import { ConnectorsService } from '../connectors/connectors.service';
-import { FeedRequestDto } from '../common/schemas/feed.schemas';
+import { HistoryService } from '../history/history.service';
+import { FeedRequestInput } from '../common/dto/market.dto';
+import {
+  MarketHistoryRequestDto,
+  MarketSearchRequestDto,
+  MoversRequestDto,
+  ClosingSoonRequestDto,
+} from '../common/schemas/feed.schemas';
 
 @ApiTags('feed')
 @Controller('feed')
@@ -13,17 +22,28 @@ export class FeedController {
     private feedService: FeedService,
     private rateLimitService: RateLimitService,
     private connectorsService: ConnectorsService,
+    private historyService: HistoryService,
   ) {}
 
   @Get('next')
-  @ApiOperation({ summary: 'Get next batch of markets for the feed (public)' })
+  @UseGuards(OptionalJwtAuthGuard)
+  @ApiOperation({ summary: 'Get next batch of markets for the feed (public; personalized when authenticated)' })
   @ApiResponse({ status: 200, description: 'Markets retrieved successfully' })
   @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
   @ApiQuery({ name: 'cursor', required: false, description: 'Pagination cursor' })
   @ApiQuery({ name: 'limit', required: false, description: 'Number of markets to return (1-20)', type: Number })
-  @ApiQuery({ name: 'tags', required: false, description: 'Filter by tags' })
+  @ApiQuery({ name: 'tags', required: false, description: 'Filter by tags (comma-separated, matches any)' })
+  @ApiQuery({ name: 'sort', required: false, enum: ['ranked', 'closing_soon', 'movers', 'newest'], description: 'Sort mode (default ranked); cursors are tied to it' })
+  @ApiQuery({ name: 'source', required: false, enum: Source })
+  @ApiQuery({ name: 'endsWithinHours', required: false, type: Number, description: 'Only markets closing within this many hours' })
+  @ApiQuery({ name: 'endsAfter', required: false, description: 'ISO date; only markets ending after it' })
+  @ApiQuery({ name: 'endsBefore', required: false, description: 'ISO date; only markets ending before it' })
+  @ApiQuery({ name: 'minProbability', required: false, type: Number, description: 'Minimum YES price (0-1)' })
+  @ApiQuery({ name: 'maxProbability', required: false, type: Number, description: 'Maximum YES price (0-1)' })
+  @ApiQuery({ name: 'minLiquidity', required: false, type: Number })
+  @ApiQuery({ name: 'minVolume', required: false, type: Number, description: 'Minimum 24h volume' })
   async getNextMarkets(
-    @Query() query: FeedRequestDto,
+    @Query() query: FeedRequestInput,
     @Request() req,
   ) {
     // Rate limiting (less strict for public access)
@@ -37,7 +57,7 @@ export class FeedController {
       throw new Error('Rate limit exceeded');
     }
 
-    // Allow unauthenticated access to feed
+    // Allow unauthenticated access to feed; signed-in users don't see markets they already swiped
     const result = await this.feedService.getNextMarkets(query, req.user?.sub);
     
     return {
@@ -46,6 +66,83 @@ export class FeedController {
     };
   }
 
+  @Get('search')
+  @ApiOperation({ summary: 'Search markets by text (public)' })
+  @ApiResponse({ status: 200, description: 'Search results retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid search parameters' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  @ApiQuery({ name: 'q', required: true, description: 'Search text (typos tolerated)' })
+  @ApiQuery({ name: 'source', required: false, enum: Source })
+  @ApiQuery({ name: 'tags', required: false, description: 'Comma-separated tags (matches any)' })
+  @ApiQuery({ name: 'endsAfter', required: false, description: 'ISO date; only markets ending after it' })
+  @ApiQuery({ name: 'endsBefore', required: false, description: 'ISO date; only markets ending before it' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Pagination cursor' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of results (1-50)', type: Number })
+  async searchMarkets(
+    @Query() query: MarketSearchRequestDto,
+    @Request() req,
+  ) {
+    const rateLimitKey = this.rateLimitService.generateKey(req, 'anonymous');
+    const isAllowed = await this.rateLimitService.checkRateLimit(
+      rateLimitKey,
+      RateLimitService.CONFIGS.FEED,
+    );
+
+    if (!isAllowed) {
+      throw new Error('Rate limit exceeded');
+    }
+
+    const result = await this.feedService.searchMarkets(query);
+
+    return {
+      success: true,
+      ...result,
+    };
+  }
+
+  @Get('trending')
+  @ApiOperation({ summary: 'Get trending markets carousel (public)' })
+  @ApiResponse({ status: 200, description: 'Trending markets retrieved successfully' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of markets (1-50)', type: Number })
+  async getTrendingMarkets(@Query('limit') limit?: string) {
+    const items = await this.feedService.getTrendingMarkets(Math.min(Math.max(Number(limit) || 10, 1), 50));
+
+    return {
+      success: true,
+      items,
+    };
+  }
+
+  @Get('movers')
+  @ApiOperation({ summary: 'Get biggest price movers carousel (public)' })
+  @ApiResponse({ status: 200, description: 'Movers retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid window or limit' })
+  @ApiQuery({ name: 'window', required: false, enum: ['1h', '24h'], description: 'Price change window (default 24h)' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of markets (1-50)', type: Number })
+  async getMovers(@Query() query: MoversRequestDto) {
+    const items = await this.feedService.getMovers(query);
+
+    return {
+      success: true,
+      items,
+    };
+  }
+
+  @Get('closing-soon')
+  @ApiOperation({ summary: 'Get markets closing soon carousel (public)' })
+  @ApiResponse({ status: 200, description: 'Closing markets retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid window or limit' })
+  @ApiQuery({ name: 'withinHours', required: false, description: 'Closing window in hours (max 168, default 24)', type: Number })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of markets (1-50)', type: Number })
+  async getClosingSoon(@Query() query: ClosingSoonRequestDto) {
+    const items = await this.feedService.getClosingSoon(query);
+
+    return {
+      success: true,
+      items,
+    };
+  }
+
   @Get('market/:id')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
@@ -66,6 +163,42 @@ export class FeedController {
     };
   }
 
+  @Get('market/:id/related')
+  @ApiOperation({ summary: 'Get markets related to a market (public)' })
+  @ApiResponse({ status: 200, description: 'Related markets retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of markets (1-20)', type: Number })
+  async getRelatedMarkets(
+    @Param('id') id: string,
+    @Query('limit') limit?: string,
+  ) {
+    const items = await this.feedService.getRelatedMarkets(id, Math.min(Math.max(Number(limit) || 10, 1), 20));
+
+    return {
+      success: true,
+      items,
+    };
+  }
+
+  @Get('market/:id/history')
+  @ApiOperation({ summary: 'Get price history for a market (public)' })
+  @ApiResponse({ status: 200, description: 'Price history retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid range or interval' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  @ApiQuery({ name: 'range', required: false, description: 'History window', enum: ['1d', '7d', '30d', '90d', '1y'] })
+  @ApiQuery({ name: 'interval', required: false, description: 'Bucket size', enum: ['5m', '15m', '1h', '4h', '1d'] })
+  async getMarketHistory(
+    @Param('id') id: string,
+    @Query() query: MarketHistoryRequestDto,
+  ) {
+    const history = await this.historyService.getMarketHistory(id, query);
+
+    return {
+      success: true,
+      ...history,
+    };
+  }
+
   @Get('stats')
   @ApiOperation({ summary: 'Get feed statistics (public)' })
   @ApiResponse({ status: 200, description: 'Statistics retrieved successfully' })
@@ -83,7 +216,7 @@ export class FeedController {
   @ApiResponse({ status: 200, description: 'Ingestion test completed' })
   async testIngestion() {
     try {
-      const results = await this.connectorsService.fetchAndStoreMarkets();
+      const { changes, ...results } = await this.connectorsService.fetchAndStoreMarkets();
       
       return {
         success: true,
@@ -6,6 +6,9 @@ import { RedisModule } from '../common/redis/redis.module';
 import { RankingModule } from '../ranking/ranking.module';
 import { RateLimitModule } from '../common/rate-limit/rate-limit.module';
 import { ConnectorsModule } from '../connectors/connectors.module';
+import { HistoryModule } from '../history/history.module';
+import { SwipesModule } from '../swipes/swipes.module';
+import { AffinityModule } from '../affinity/affinity.module';
 
 @Module({
   imports: [
@@ -14,6 +17,9 @@ import { ConnectorsModule } from '../connectors/connectors.module';
     RankingModule,
     RateLimitModule,
     ConnectorsModule,
+    HistoryModule,
+    SwipesModule,
+    AffinityModule,
   ],
   providers: [FeedService],
   controllers: [FeedController],
@@ -1,8 +1,45 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../common/prisma/prisma.service';
 import { RedisService } from '../common/redis/redis.service';
 import { RankingAlgoService } from '../ranking/ranking-algo.service';
-import { FeedRequestDto, FeedResponseDto, MarketItemDto } from '../common/dto/market.dto';
+import { RankingService } from '../ranking/ranking.service';
+import { SwipesService } from '../swipes/swipes.service';
+import { AffinityService, AffinityProfile } from '../affinity/affinity.service';
+import {
+  FeedRequest,
+  FeedRequestInput,
+  FeedRequestSchema,
+  FeedResponseDto,
+  MarketItemDto,
+} from '../common/dto/market.dto';
+import {
+  MarketSearchRequestSchema,
+  MarketSearchRequestDto,
+  MoversRequestSchema,
+  MoversRequestDto,
+  ClosingSoonRequestSchema,
+  ClosingSoonRequestDto,
+} from '../common/schemas/feed.schemas';
+
+const RANKED_SEGMENT = 'default';
+const RANKED_CURSOR_PREFIX = 'ranked:';
+// Slices read per ranked page; heavy swipers can skip most of each one
+const MAX_RANKED_SLICES = 5;
+
+// Related markets: end dates within this window count as the same event
+const RELATED_DATE_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+const RELATED_MAX_SWIPERS = 1000; // most recent RIGHT swipers sampled for co-swipes
+const RELATED_CACHE_SIZE = 20;
+const RELATED_CANDIDATES = 200; // best tag/text/co-swipe matches re-scored with end date proximity
+
+// Database orderings; 'recent' is the fallback while the ranking cache is cold
+const KEYSET_SORTS = {
+  recent: { field: 'updatedAt', direction: 'desc' },
+  newest: { field: 'createdAt', direction: 'desc' },
+  closing_soon: { field: 'endDate', direction: 'asc' },
+  movers: { field: 'priceMove24', direction: 'desc' },
+} as const;
 
 @Injectable()
 export class FeedService {
@@ -12,88 +49,271 @@ export class FeedService {
     private prisma: PrismaService,
     private redis: RedisService,
     private rankingAlgo: RankingAlgoService,
+    private rankingService: RankingService,
+    private swipesService: SwipesService,
+    private affinityService: AffinityService,
   ) {}
 
   /**
    * Get next batch of markets for the feed with cursor-based pagination
    */
   async getNextMarkets(
-    request: FeedRequestDto,
+    request: FeedRequestInput,
     userId?: string,
   ): Promise<FeedResponseDto> {
-    const cursor = request.cursor;
-    const limit = Number(request.limit); // Convert to number
-    const tags = request.tags;
+    const parsed = FeedRequestSchema.safeParse(request);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors[0]?.message ?? 'Invalid feed request');
+    }
+
+    const { cursor, limit, sort } = parsed.data;
+    const filters = this.buildFeedFilters(parsed.data);
     
-    this.logger.log(`Getting next markets: limit=${limit}, cursor=${cursor}, tags=${tags?.join(',')}`);
+    this.logger.log(`Getting next markets: sort=${sort}, limit=${limit}, cursor=${cursor}${userId ? `, user=${userId}` : ''}`);
 
     try {
-      // Parse cursor if provided
-      let cursorDate: Date | undefined;
-      let cursorId: string | undefined;
-      
-      if (cursor) {
-        try {
-          const [dateStr, id] = cursor.split(',');
-          cursorDate = new Date(dateStr);
-          cursorId = id;
-        } catch (error) {
-          this.logger.warn(`Invalid cursor format: ${cursor}`);
+      // Hide markets the user already swiped on. Filtering while paging keeps
+      // pages full and cursors valid as the user swipes between pages
+      const swiped = new Set(userId ? await this.swipesService.getSwipedMarketIds(userId) : []);
+
+      if (sort !== 'ranked') {
+        return await this.getSortedMarkets(sort, cursor, limit, filters, swiped);
+      }
+
+      // Serve the ranked order while the ranking cache is warm
+      const isRankedCursor = cursor?.startsWith(RANKED_CURSOR_PREFIX) ?? false;
+      if (!cursor || isRankedCursor) {
+        const profile = userId ? await this.affinityService.getProfile(userId) : null;
+        const ranked = await this.getRankedMarkets(cursor, limit, filters, swiped, profile);
+        if (ranked) {
+          return ranked;
         }
       }
 
-      // Build where clause for cursor-based pagination
-      const where: any = {
-        endDate: { gt: new Date() }, // Only active markets
+      // A ranked cursor can't be translated once the cache is gone, so restart
+      return await this.getSortedMarkets('recent', isRankedCursor ? undefined : cursor, limit, filters, swiped);
+    } catch (error) {
+      this.logger.error('Failed to get next markets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Translate feed filters into a Prisma where clause (active, eligible markets only)
+   */
+  private buildFeedFilters(request: FeedRequest): Prisma.MarketItemWhereInput {
+    const now = new Date();
+    const endDate: Prisma.DateTimeFilter = { gt: now };
+
+    if (request.endsAfter && new Date(request.endsAfter) > now) {
+      endDate.gt = new Date(request.endsAfter);
+    }
+    if (request.endsBefore) {
+      endDate.lte = new Date(request.endsBefore);
+    }
+    if (request.endsWithinHours !== undefined) {
+      const withinHours = new Date(now.getTime() + request.endsWithinHours * 60 * 60 * 1000);
+      endDate.lte = endDate.lte && endDate.lte < withinHours ? endDate.lte : withinHours;
+    }
+
+    const where: Prisma.MarketItemWhereInput = { eligible: true, endDate };
+
+    if (request.tags && request.tags.length > 0) {
+      where.tags = { hasSome: request.tags };
+    }
+    if (request.source) {
+      where.source = request.source;
+    }
+    if (request.minProbability !== undefined || request.maxProbability !== undefined) {
+      where.yesPrice = {
+        ...(request.minProbability !== undefined ? { gte: request.minProbability } : {}),
+        ...(request.maxProbability !== undefined ? { lte: request.maxProbability } : {}),
       };
+    }
+    if (request.minLiquidity !== undefined) {
+      where.liquidity = { gte: request.minLiquidity };
+    }
+    if (request.minVolume !== undefined) {
+      where.volume24h = { gte: request.minVolume };
+    }
+
+    return where;
+  }
+
+  /**
+   * Page through the ranked (diversified) order from Redis; null when the cache is cold.
+   * With an affinity profile each page is re-ordered for the user
+   */
+  private async getRankedMarkets(
+    cursor: string | undefined,
+    limit: number,
+    filters: Prisma.MarketItemWhereInput,
+    swiped: Set<string>,
+    profile: AffinityProfile | null,
+  ): Promise<FeedResponseDto | null> {
+    // Cursor pins the snapshot version, so re-ranking between pages doesn't reshuffle it
+    let version: string | undefined;
+    let offset = 0;
+
+    if (cursor) {
+      const [cursorVersion, cursorOffset] = cursor.slice(RANKED_CURSOR_PREFIX.length).split(':');
+      version = cursorVersion;
+      offset = Number(cursorOffset) || 0;
+    }
 
-      if (tags && tags.length > 0) {
-        where.tags = { hasSome: tags };
+    const markets: any[] = [];
+    const served = new Set<string>();
+    let hasMore = false;
+    let exhausted = false;
+
+    for (let slices = 0; slices < MAX_RANKED_SLICES && !hasMore && !exhausted; slices++) {
+      const slice = await this.rankingService.getRankedSlice(RANKED_SEGMENT, offset, limit * 3, version);
+      if (!slice) {
+        // Cold cache only matters before anything has been served
+        if (!version) return null;
+        exhausted = true;
+        break;
       }
 
-      if (cursorDate && cursorId) {
-        where.OR = [
-          { updatedAt: { lt: cursorDate } },
-          { 
-            updatedAt: cursorDate,
-            id: { lt: cursorId }
+      if (slice.restarted) {
+        // The pinned snapshot expired; the user's swipes still keep seen markets out
+        offset = 0;
+      }
+
+      version = slice.version;
+      exhausted = slice.marketIds.length < limit * 3;
+      if (slice.marketIds.length === 0) {
+        break;
+      }
+
+      // The snapshot may be older than the latest ingestion, so re-check eligibility
+      const candidates = await this.prisma.marketItem.findMany({
+        where: {
+          ...filters,
+          id: { in: slice.marketIds.filter(id => !swiped.has(id) && !served.has(id)) },
+          eligible: true,
+        },
+      });
+      const byId = new Map(candidates.map(market => [market.id, market]));
+
+      for (const id of slice.marketIds) {
+        const market = byId.get(id);
+        if (market) {
+          if (markets.length === limit) {
+            hasMore = true;
+            break;
           }
-        ];
+          markets.push(market);
+          served.add(id);
+        }
+        offset++;
       }
+    }
 
-      // Get markets from database
-      const markets = await this.prisma.marketItem.findMany({
-        where,
-        orderBy: [
-          { updatedAt: 'desc' },
-          { id: 'desc' },
+    // Out of slices before the page filled: continue from where the scan stopped
+    if (!exhausted && version) {
+      hasMore = true;
+    }
+
+    // Only markets served on this page are behind the cursor, so nothing is skipped
+    const items = this.affinityService.orderForUser(profile, markets);
+
+    this.logger.log(`Returning ${items.length} ranked markets, hasMore: ${hasMore}`);
+
+    return {
+      items: items.map(this.mapMarketToDto),
+      nextCursor: hasMore ? `${RANKED_CURSOR_PREFIX}${version}:${offset}` : undefined,
+      hasMore,
+    };
+  }
+
+  /**
+   * Page through markets in a column order straight from the database. The cursor
+   * is `<sort>:<base64url [value, id]>` of the last row, so it can't be replayed
+   * against a different sort
+   */
+  private async getSortedMarkets(
+    sort: keyof typeof KEYSET_SORTS,
+    cursor: string | undefined,
+    limit: number,
+    filters: Prisma.MarketItemWhereInput,
+    swiped: Set<string>,
+  ): Promise<FeedResponseDto> {
+    const { field, direction } = KEYSET_SORTS[sort];
+    const after = direction === 'desc' ? 'lt' : 'gt';
+
+    const where: any = { ...filters };
+
+    if (swiped.size > 0) {
+      where.id = { notIn: Array.from(swiped) };
+    }
+
+    if (cursor) {
+      const [cursorValue, cursorId] = this.decodeSortCursor(sort, cursor);
+      where.AND = [{
+        OR: [
+          { [field]: { [after]: cursorValue } },
+          { [field]: cursorValue, id: { [after]: cursorId } },
         ],
-        take: limit + 1, // Take one extra to check if there are more
-      });
+      }];
+    }
 
-      const hasMore = markets.length > limit;
-      const resultMarkets = hasMore ? markets.slice(0, limit) : markets;
+    // Get markets from database
+    const markets = await this.prisma.marketItem.findMany({
+      where,
+      orderBy: [
+        { [field]: direction },
+        { id: direction },
+      ],
+      take: limit + 1, // Take one extra to check if there are more
+    });
+
+    const hasMore = markets.length > limit;
+    const resultMarkets = hasMore ? markets.slice(0, limit) : markets;
+
+    // Generate next cursor
+    let nextCursor: string | undefined;
+    if (hasMore && resultMarkets.length > 0) {
+      const lastMarket = resultMarkets[resultMarkets.length - 1];
+      const value = lastMarket[field];
+      nextCursor = `${sort}:${Buffer.from(JSON.stringify([
+        value instanceof Date ? value.toISOString() : value,
+        lastMarket.id,
+      ])).toString('base64url')}`;
+    }
 
-      // Generate next cursor
-      let nextCursor: string | undefined;
-      if (hasMore && resultMarkets.length > 0) {
-        const lastMarket = resultMarkets[resultMarkets.length - 1];
-        nextCursor = `${lastMarket.updatedAt.toISOString()},${lastMarket.id}`;
-      }
+    // Convert to DTOs
+    const items: MarketItemDto[] = resultMarkets.map(this.mapMarketToDto);
 
-      // Convert to DTOs
-      const items: MarketItemDto[] = resultMarkets.map(this.mapMarketToDto);
+    this.logger.log(`Returning ${items.length} markets by ${sort}, hasMore: ${hasMore}`);
 
-      this.logger.log(`Returning ${items.length} markets, hasMore: ${hasMore}`);
+    return {
+      items,
+      nextCursor,
+      hasMore,
+    };
+  }
 
-      return {
-        items,
-        nextCursor,
-        hasMore,
-      };
+  /**
+   * Decode a keyset cursor, rejecting cursors issued for another sort
+   */
+  private decodeSortCursor(sort: keyof typeof KEYSET_SORTS, cursor: string): [Date | number, string] {
+    const prefix = `${sort}:`;
+    if (!cursor.startsWith(prefix)) {
+      throw new BadRequestException('Cursor does not match the requested sort');
+    }
+
+    try {
+      const [value, id] = JSON.parse(Buffer.from(cursor.slice(prefix.length), 'base64url').toString());
+      const isDate = KEYSET_SORTS[sort].field !== 'priceMove24';
+
+      if (typeof id !== 'string' || (isDate ? typeof value !== 'string' : typeof value !== 'number')) {
+        throw new Error('Malformed cursor');
+      }
+
+      return [isDate ? new Date(value) : value, id];
     } catch (error) {
-      this.logger.error('Failed to get next markets:', error);
-      throw error;
+      throw new BadRequestException('Invalid cursor');
     }
   }
 
@@ -129,6 +349,101 @@ export class FeedService {
     }
   }
 
+  /**
+   * Get markets related to a market by tag overlap, question similarity and
+   * co-swipes (users who swiped RIGHT on both); end date proximity only boosts them
+   */
+  async getRelatedMarkets(marketId: string, limit: number = 10): Promise<MarketItemDto[]> {
+    const cacheKey = `market:${marketId}:related`;
+    const cached = await this.redis.getJson<MarketItemDto[]>(cacheKey);
+    if (cached) {
+      return cached.slice(0, limit);
+    }
+
+    const market = await this.prisma.marketItem.findUnique({
+      where: { id: marketId },
+      select: { id: true, question: true, tags: true, endDate: true },
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    try {
+      const rows = await this.prisma.$queryRaw<Array<{
+        id: string;
+        endDate: Date;
+        tagScore: number;
+        textScore: number;
+        coSwipes: number;
+      }>>`
+        WITH target_swipers AS (
+          SELECT "userId" FROM "swipes"
+          WHERE "marketId" = ${market.id} AND "direction" = 'RIGHT'
+          ORDER BY "createdAt" DESC
+          LIMIT ${RELATED_MAX_SWIPERS}
+        ),
+        co_swipes AS (
+          SELECT s."marketId", count(*)::float8 AS "count"
+          FROM "swipes" s
+          JOIN target_swipers t ON t."userId" = s."userId"
+          WHERE s."direction" = 'RIGHT' AND s."marketId" <> ${market.id}
+          GROUP BY s."marketId"
+        ),
+        candidates AS (
+          SELECT m."id", m."endDate",
+            COALESCE(
+              cardinality(ARRAY(SELECT unnest(m."tags") INTERSECT SELECT unnest(${market.tags}::text[])))::float8
+                / NULLIF(cardinality(ARRAY(SELECT unnest(m."tags") UNION SELECT unnest(${market.tags}::text[]))), 0),
+              0
+            ) AS "tagScore",
+            similarity(m."question", ${market.question})::float8 AS "textScore",
+            COALESCE(c."count", 0) AS "coSwipes"
+          FROM "market_items" m
+          LEFT JOIN co_swipes c ON c."marketId" = m."id"
+          WHERE m."id" <> ${market.id}
+            AND m."eligible" = true
+            AND m."endDate" > now()
+            AND (
+              m."tags" && ${market.tags}::text[]
+              OR m."question" % ${market.question}
+              OR c."count" IS NOT NULL
+            )
+        )
+        SELECT * FROM candidates
+        ORDER BY 0.35 * "tagScore" + 0.25 * "textScore"
+          + 0.25 * COALESCE("coSwipes" / NULLIF(max("coSwipes") OVER (), 0), 0) DESC
+        LIMIT ${RELATED_CANDIDATES}
+      `;
+
+      const maxCoSwipes = Math.max(0, ...rows.map(row => row.coSwipes));
+      const scored = rows
+        .map(row => {
+          const dateScore = Math.max(
+            0,
+            1 - Math.abs(row.endDate.getTime() - market.endDate.getTime()) / RELATED_DATE_WINDOW_MS,
+          );
+          const coSwipeScore = maxCoSwipes > 0 ? row.coSwipes / maxCoSwipes : 0;
+
+          return {
+            id: row.id,
+            score: 0.35 * row.tagScore + 0.25 * row.textScore + 0.15 * dateScore + 0.25 * coSwipeScore,
+          };
+        })
+        .sort((a, b) => b.score - a.score)
+        .slice(0, RELATED_CACHE_SIZE);
+
+      const related = await this.hydrateMarkets(scored.map(entry => entry.id));
+
+      await this.redis.setJson(cacheKey, related, 600); // 10 minutes
+
+      return related.slice(0, limit);
+    } catch (error) {
+      this.logger.error(`Failed to get related markets for ${marketId}:`, error);
+      return [];
+    }
+  }
+
   /**
    * Get featured markets (spotlighted by admin)
    */
@@ -155,6 +470,10 @@ export class FeedService {
    */
   async getTrendingMarkets(limit: number = 10): Promise<MarketItemDto[]> {
     try {
+      if (await this.redis.exists('feed:trending:refreshedAt')) {
+        return await this.hydrateMarkets(await this.redis.zrange('feed:trending', 0, limit - 1));
+      }
+
       const markets = await this.prisma.marketItem.findMany({
         where: {
           endDate: { gt: new Date() },
@@ -175,6 +494,114 @@ export class FeedService {
     }
   }
 
+  /**
+   * Get the biggest 1h or 24h movers by absolute YES price change
+   */
+  async getMovers(request: MoversRequestDto): Promise<MarketItemDto[]> {
+    const parsed = MoversRequestSchema.safeParse(request);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors[0]?.message ?? 'Invalid movers request');
+    }
+
+    const { window, limit } = parsed.data;
+    const key = `feed:movers:${window}`;
+
+    try {
+      if (await this.redis.exists(`${key}:refreshedAt`)) {
+        return await this.hydrateMarkets(await this.redis.zrange(key, 0, limit - 1));
+      }
+
+      // Cold cache: 24h moves are indexed; 1h needs both tails of the signed change
+      const active = { eligible: true, endDate: { gt: new Date() } };
+
+      if (window === '24h') {
+        const markets = await this.prisma.marketItem.findMany({
+          where: { ...active, priceMove24: { gt: 0 } },
+          orderBy: [{ priceMove24: 'desc' }, { id: 'asc' }],
+          take: limit,
+        });
+        return markets.map(this.mapMarketToDto);
+      }
+
+      const [risers, fallers] = await Promise.all([
+        this.prisma.marketItem.findMany({
+          where: { ...active, priceChange1h: { gt: 0 } },
+          orderBy: { priceChange1h: 'desc' },
+          take: limit,
+        }),
+        this.prisma.marketItem.findMany({
+          where: { ...active, priceChange1h: { lt: 0 } },
+          orderBy: { priceChange1h: 'asc' },
+          take: limit,
+        }),
+      ]);
+
+      return [...risers, ...fallers]
+        .sort((a, b) => Math.abs(b.priceChange1h) - Math.abs(a.priceChange1h))
+        .slice(0, limit)
+        .map(this.mapMarketToDto);
+    } catch (error) {
+      this.logger.error(`Failed to get ${window} movers:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Get markets closing within the given number of hours, soonest first
+   */
+  async getClosingSoon(request: ClosingSoonRequestDto): Promise<MarketItemDto[]> {
+    const parsed = ClosingSoonRequestSchema.safeParse(request);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors[0]?.message ?? 'Invalid closing-soon request');
+    }
+
+    const { withinHours, limit } = parsed.data;
+    const now = Date.now();
+    const until = now + withinHours * 60 * 60 * 1000;
+
+    try {
+      if (await this.redis.exists('feed:closing:refreshedAt')) {
+        return await this.hydrateMarkets(await this.redis.zrangebyscore('feed:closing', now, until, 0, limit));
+      }
+
+      const markets = await this.prisma.marketItem.findMany({
+        where: {
+          eligible: true,
+          endDate: { gt: new Date(now), lte: new Date(until) },
+        },
+        orderBy: [{ endDate: 'asc' }, { id: 'asc' }],
+        take: limit,
+      });
+
+      return markets.map(this.mapMarketToDto);
+    } catch (error) {
+      this.logger.error(`Failed to get markets closing within ${withinHours}h:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Load cached carousel markets in order, dropping any that closed or were hidden since
+   */
+  private async hydrateMarkets(marketIds: string[]): Promise<MarketItemDto[]> {
+    if (marketIds.length === 0) {
+      return [];
+    }
+
+    const markets = await this.prisma.marketItem.findMany({
+      where: {
+        id: { in: marketIds },
+        eligible: true,
+        endDate: { gt: new Date() },
+      },
+    });
+    const byId = new Map(markets.map(market => [market.id, market]));
+
+    return marketIds
+      .filter(id => byId.has(id))
+      .map(id => this.mapMarketToDto(byId.get(id)));
+  }
+
   /**
    * Get markets by tags
    */
@@ -199,6 +626,84 @@ export class FeedService {
     }
   }
 
+  /**
+   * Search markets by full-text match on question/description, tolerating typos via trigram similarity
+   */
+  async searchMarkets(request: MarketSearchRequestDto): Promise<FeedResponseDto> {
+    const parsed = MarketSearchRequestSchema.safeParse(request);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors[0]?.message ?? 'Invalid search query');
+    }
+
+    const { q, source, tags, endsAfter, endsBefore, cursor, limit } = parsed.data;
+
+    // Cursor is the last row's (score, id); scores are stable while the data is
+    let cursorScore: number | undefined;
+    let cursorId: string | undefined;
+    if (cursor) {
+      const [score, id] = cursor.split(',');
+      cursorScore = Number(score);
+      cursorId = id;
+      if (!Number.isFinite(cursorScore) || !cursorId) {
+        throw new BadRequestException('Invalid cursor');
+      }
+    }
+
+    const filters: Prisma.Sql[] = [Prisma.sql`m."eligible" = true`];
+    if (source) {
+      filters.push(Prisma.sql`m."source" = ${source}::"Source"`);
+    }
+    if (tags && tags.length > 0) {
+      filters.push(Prisma.sql`m."tags" && ${tags}::text[]`);
+    }
+    if (endsAfter) {
+      filters.push(Prisma.sql`m."endDate" >= ${new Date(endsAfter)}`);
+    }
+    if (endsBefore) {
+      filters.push(Prisma.sql`m."endDate" <= ${new Date(endsBefore)}`);
+    }
+
+    const cursorFilter = cursorId
+      ? Prisma.sql`WHERE (r."score" < ${cursorScore} OR (r."score" = ${cursorScore} AND r."id" > ${cursorId}))`
+      : Prisma.empty;
+
+    try {
+      const rows = await this.prisma.$queryRaw<Array<{ id: string; score: number }>>`
+        SELECT r."id", r."score" FROM (
+          SELECT m."id",
+            (ts_rank(m."searchVector", query) + word_similarity(${q}, m."question"))::float8 AS "score"
+          FROM "market_items" m, websearch_to_tsquery('english', ${q}) AS query
+          WHERE (m."searchVector" @@ query OR ${q} <% m."question")
+            AND ${Prisma.join(filters, ' AND ')}
+        ) r
+        ${cursorFilter}
+        ORDER BY r."score" DESC, r."id" ASC
+        LIMIT ${limit + 1}
+      `;
+
+      const hasMore = rows.length > limit;
+      const resultRows = hasMore ? rows.slice(0, limit) : rows;
+
+      const markets = await this.prisma.marketItem.findMany({
+        where: { id: { in: resultRows.map(row => row.id) } },
+      });
+      const byId = new Map(markets.map(market => [market.id, market]));
+
+      const lastRow = resultRows[resultRows.length - 1];
+
+      return {
+        items: resultRows
+          .filter(row => byId.has(row.id))
+          .map(row => this.mapMarketToDto(byId.get(row.id))),
+        nextCursor: hasMore ? `${lastRow.score},${lastRow.id}` : undefined,
+        hasMore,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to search markets for "${q}":`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get feed statistics
    */
@@ -270,9 +775,12 @@ export class FeedService {
     endDate: market.endDate.toISOString(),
     confidence: market.confidence,
     trendScore: market.trendScore,
+    priceChange1h: market.priceChange1h,
+    priceChange24: market.priceChange24,
     tags: market.tags,
     insight: market.insight,
-    exchanges: market.exchanges as Array<{ name: string; url: string }>,
+    outcomes: (market.outcomes as MarketItemDto['outcomes']) ?? undefined,
+    exchanges: market.exchanges as MarketItemDto['exchanges'],
   });
 
   /**
@@ -292,6 +800,7 @@ export class FeedService {
           liquidity: market.liquidity,
           volume24h: market.volume24h,
           priceChange24: market.priceChange24,
+          volumeVelocity: market.volumeVelocity,
           mentionScore: market.mentionScore,
           endDate: market.endDate,
         };
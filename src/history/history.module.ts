@@ -0,0 +1,16 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { HistoryService } from './history.service';
+import { PrismaModule } from '../common/prisma/prisma.module';
+import { RedisModule } from '../common/redis/redis.module';
+import { JobsModule } from '../jobs/jobs.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    RedisModule,
+    forwardRef(() => JobsModule),
+  ],
+  providers: [HistoryService],
+  exports: [HistoryService],
+})
+export class HistoryModule {}
@@ -0,0 +1,333 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, OnModuleInit } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { RedisService } from '../common/redis/redis.service';
+import {
+  MarketHistoryRequestSchema,
+  MarketHistoryPointDto,
+  MarketHistoryResponseDto,
+} from '../common/schemas/feed.schemas';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Markets per UPDATE when refreshing derived price changes
+const PRICE_CHANGE_BATCH_SIZE = 500;
+
+type PriceChangeField = 'priceChange1h' | 'priceChange24' | 'priceChange7d' | 'priceMove24' | 'volumeVelocity';
+
+const RANGE_MS: Record<string, number> = {
+  '1d': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  '90d': 90 * DAY_MS,
+  '1y': 365 * DAY_MS,
+};
+
+const INTERVAL_MS: Record<string, number> = {
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': HOUR_MS,
+  '4h': 4 * HOUR_MS,
+  '1d': DAY_MS,
+};
+
+const MAX_HISTORY_POINTS = 1000;
+
+// Retention policy: raw snapshots for 48h, one per hour up to 30 days,
+// one per day up to a year, nothing older
+const RAW_RETENTION_MS = 48 * HOUR_MS;
+const HOURLY_RETENTION_MS = 30 * DAY_MS;
+const DAILY_RETENTION_MS = 365 * DAY_MS;
+
+@Injectable()
+export class HistoryService implements OnModuleInit {
+  private readonly logger = new Logger(HistoryService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    @InjectQueue('history') private historyQueue: Queue,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      // Repeatable jobs are keyed by their cron, so every instance registers the same one
+      await this.historyQueue.add('retention', {}, {
+        repeat: { cron: '15 * * * *' }, // hourly
+        removeOnComplete: 10,
+        removeOnFail: 5,
+      });
+    } catch (error) {
+      this.logger.error('Failed to schedule price history retention:', error);
+    }
+  }
+
+  /**
+   * Get a market's price history bucketed by interval (last snapshot per bucket)
+   */
+  async getMarketHistory(
+    marketId: string,
+    query: { range?: string; interval?: string },
+  ): Promise<MarketHistoryResponseDto> {
+    const parsed = MarketHistoryRequestSchema.safeParse(query);
+    if (!parsed.success) {
+      throw new BadRequestException('Invalid history range or interval');
+    }
+
+    const { range, interval } = parsed.data;
+    const rangeMs = RANGE_MS[range];
+    const intervalMs = INTERVAL_MS[interval];
+
+    if (rangeMs / intervalMs > MAX_HISTORY_POINTS) {
+      throw new BadRequestException(`Interval ${interval} is too fine for range ${range}`);
+    }
+
+    const cacheKey = `market:${marketId}:history:${range}:${interval}`;
+    const cached = await this.redis.getJson<MarketHistoryResponseDto>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const market = await this.prisma.marketItem.findUnique({
+      where: { id: marketId },
+      select: { id: true },
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    const since = new Date(Date.now() - rangeMs);
+    const select = { yesPrice: true, noPrice: true, volume24h: true, capturedAt: true };
+
+    const [previous, snapshots] = await Promise.all([
+      // Snapshots are deduplicated, so the price at range start is the last one before it
+      this.prisma.marketPriceSnapshot.findFirst({
+        where: { marketId, capturedAt: { lt: since } },
+        orderBy: { capturedAt: 'desc' },
+        select,
+      }),
+      this.prisma.marketPriceSnapshot.findMany({
+        where: { marketId, capturedAt: { gte: since } },
+        orderBy: { capturedAt: 'asc' },
+        select,
+      }),
+    ]);
+
+    const buckets = new Map<number, MarketHistoryPointDto>();
+    const series = previous ? [{ ...previous, capturedAt: since }, ...snapshots] : snapshots;
+
+    for (const snapshot of series) {
+      const bucket = Math.floor(snapshot.capturedAt.getTime() / intervalMs) * intervalMs;
+      buckets.set(bucket, {
+        t: new Date(bucket).toISOString(),
+        yesPrice: snapshot.yesPrice,
+        noPrice: snapshot.noPrice,
+        volume24h: snapshot.volume24h,
+      });
+    }
+
+    const result: MarketHistoryResponseDto = {
+      marketId,
+      range,
+      interval,
+      points: Array.from(buckets.values()),
+    };
+
+    await this.redis.setJson(cacheKey, result, 60); // 1 minute
+
+    return result;
+  }
+
+  /**
+   * Derive 1h/24h/7d price change and volume velocity for active markets from stored snapshots
+   */
+  async refreshPriceChanges(marketIds?: string[]): Promise<{ processed: number; updated: number }> {
+    try {
+      const markets = await this.prisma.marketItem.findMany({
+        where: {
+          endDate: { gt: new Date() },
+          ...(marketIds ? { id: { in: marketIds } } : {}),
+        },
+        select: {
+          id: true,
+          yesPrice: true,
+          volume24h: true,
+          priceChange1h: true,
+          priceChange24: true,
+          priceChange7d: true,
+          priceMove24: true,
+          volumeVelocity: true,
+        },
+      });
+
+      if (markets.length === 0) {
+        return { processed: 0, updated: 0 };
+      }
+
+      const ids = markets.map(m => m.id);
+      const now = Date.now();
+      const [hourAgo, dayAgo, weekAgo] = await Promise.all([
+        this.getSnapshotsAt(ids, new Date(now - HOUR_MS)),
+        this.getSnapshotsAt(ids, new Date(now - DAY_MS)),
+        this.getSnapshotsAt(ids, new Date(now - 7 * DAY_MS)),
+      ]);
+
+      const changes = markets
+        .map(market => {
+          const dayBaseline = dayAgo.get(market.id);
+          const priceChange24 = this.calculatePriceChange(market.yesPrice, dayBaseline?.yesPrice);
+
+          return {
+            market,
+            data: {
+              priceChange1h: this.calculatePriceChange(market.yesPrice, hourAgo.get(market.id)?.yesPrice),
+              priceChange24,
+              priceChange7d: this.calculatePriceChange(market.yesPrice, weekAgo.get(market.id)?.yesPrice),
+              priceMove24: Math.abs(priceChange24),
+              volumeVelocity: this.calculateVolumeVelocity(market.volume24h, dayBaseline?.volume24h),
+            },
+          };
+        })
+        .filter(({ market, data }) =>
+          data.priceChange1h !== market.priceChange1h ||
+          data.priceChange24 !== market.priceChange24 ||
+          data.priceChange7d !== market.priceChange7d ||
+          data.priceMove24 !== market.priceMove24 ||
+          data.volumeVelocity !== market.volumeVelocity,
+        );
+
+      // The windows move on their own, so most active markets change every run; one
+      // statement per chunk keeps each write short instead of one long transaction
+      for (let i = 0; i < changes.length; i += PRICE_CHANGE_BATCH_SIZE) {
+        await this.writePriceChanges(changes.slice(i, i + PRICE_CHANGE_BATCH_SIZE));
+      }
+
+      this.logger.log(`Price changes refreshed: ${markets.length} processed, ${changes.length} updated`);
+
+      return {
+        processed: markets.length,
+        updated: changes.length,
+      };
+    } catch (error) {
+      this.logger.error('Failed to refresh price changes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change in yes price, in percentage points; 0 without a baseline
+   */
+  calculatePriceChange(current: number, baseline?: number): number {
+    if (baseline === undefined) return 0;
+    return Math.round((current - baseline) * 100 * 100) / 100;
+  }
+
+  /**
+   * Relative change in rolling 24h volume; 0 without a baseline
+   */
+  calculateVolumeVelocity(current: number, baseline?: number): number {
+    if (baseline === undefined) return 0;
+    if (baseline <= 0) return current > 0 ? 1 : 0;
+    return (current - baseline) / baseline;
+  }
+
+  /**
+   * Latest snapshot per market captured at or before the given time
+   */
+  private async getSnapshotsAt(
+    marketIds: string[],
+    at: Date,
+  ): Promise<Map<string, { yesPrice: number; volume24h: number }>> {
+    const rows = await this.prisma.$queryRaw<Array<{ marketId: string; yesPrice: number; volume24h: number }>>`
+      SELECT DISTINCT ON ("marketId") "marketId", "yesPrice", "volume24h"
+      FROM "market_price_snapshots"
+      WHERE "marketId" = ANY(${marketIds}) AND "capturedAt" <= ${at}
+      ORDER BY "marketId", "capturedAt" DESC
+    `;
+
+    return new Map(rows.map(row => [row.marketId, { yesPrice: row.yesPrice, volume24h: row.volume24h }]));
+  }
+
+  /**
+   * Downsample and expire price snapshots according to the retention policy
+   */
+  async applyRetention(): Promise<{
+    hourlyRemoved: number;
+    dailyRemoved: number;
+    expiredRemoved: number;
+  }> {
+    const now = Date.now();
+
+    try {
+      const hourlyRemoved = await this.downsample(
+        'hour',
+        new Date(now - HOURLY_RETENTION_MS),
+        new Date(now - RAW_RETENTION_MS),
+      );
+      const dailyRemoved = await this.downsample(
+        'day',
+        new Date(now - DAILY_RETENTION_MS),
+        new Date(now - HOURLY_RETENTION_MS),
+      );
+      const expired = await this.prisma.marketPriceSnapshot.deleteMany({
+        where: { capturedAt: { lt: new Date(now - DAILY_RETENTION_MS) } },
+      });
+
+      this.logger.log(
+        `Price history retention: ${hourlyRemoved} hourly, ${dailyRemoved} daily, ${expired.count} expired snapshots removed`,
+      );
+
+      return {
+        hourlyRemoved,
+        dailyRemoved,
+        expiredRemoved: expired.count,
+      };
+    } catch (error) {
+      this.logger.error('Price history retention failed:', error);
+      throw error;
+    }
+  }
+
+  private async writePriceChanges(
+    changes: Array<{ market: { id: string }; data: Record<PriceChangeField, number> }>,
+  ): Promise<void> {
+    const rows = changes.map(({ market, data }) => Prisma.sql`(
+      ${market.id}, ${data.priceChange1h}::float8, ${data.priceChange24}::float8, ${data.priceChange7d}::float8,
+      ${data.priceMove24}::float8, ${data.volumeVelocity}::float8
+    )`);
+
+    await this.prisma.$executeRaw`
+      UPDATE "market_items" AS m SET
+        "priceChange1h" = v."priceChange1h",
+        "priceChange24" = v."priceChange24",
+        "priceChange7d" = v."priceChange7d",
+        "priceMove24" = v."priceMove24",
+        "volumeVelocity" = v."volumeVelocity"
+      FROM (VALUES ${Prisma.join(rows)})
+        AS v("id", "priceChange1h", "priceChange24", "priceChange7d", "priceMove24", "volumeVelocity")
+      WHERE m."id" = v."id"
+    `;
+  }
+
+  /**
+   * Keep only the last snapshot per market and bucket captured within [from, to)
+   */
+  private async downsample(bucket: 'hour' | 'day', from: Date, to: Date): Promise<number> {
+    return this.prisma.$executeRaw`
+      DELETE FROM "market_price_snapshots" AS s
+      USING (
+        SELECT "id", ROW_NUMBER() OVER (
+          PARTITION BY "marketId", date_trunc(${bucket}, "capturedAt")
+          ORDER BY "capturedAt" DESC
+        ) AS rn
+        FROM "market_price_snapshots"
+        WHERE "capturedAt" >= ${from} AND "capturedAt" < ${to}
+      ) AS ranked
+      WHERE s."id" = ranked."id" AND ranked.rn > 1
+    `;
+  }
+}
@@ -5,10 +5,15 @@ import { RankingProcessor } from './processors/ranking.processor';
 import { InsightsProcessor } from './processors/insights.processor';
 import { ResolutionProcessor } from './processors/resolution.processor';
 import { AnalyticsProcessor } from './processors/analytics.processor';
+import { HistoryProcessor } from './processors/history.processor';
+import { ExchangesProcessor } from './processors/exchanges.processor';
 import { ConnectorsModule } from '../connectors/connectors.module';
 import { RankingModule } from '../ranking/ranking.module';
 import { InsightsModule } from '../insights/insights.module';
 import { ResolutionModule } from '../resolution/resolution.module';
+import { HistoryModule } from '../history/history.module';
+import { ExchangesModule } from '../exchanges/exchanges.module';
+import { RealtimeModule } from '../realtime/realtime.module';
 
 @Module({
   imports: [
@@ -18,11 +23,16 @@ import { ResolutionModule } from '../resolution/resolution.module';
       { name: 'insights' },
       { name: 'resolution' },
       { name: 'analytics' },
+      { name: 'history' },
+      { name: 'exchanges' },
     ),
     ConnectorsModule,
     forwardRef(() => RankingModule),
     forwardRef(() => InsightsModule),
     forwardRef(() => ResolutionModule),
+    forwardRef(() => HistoryModule),
+    forwardRef(() => ExchangesModule),
+    RealtimeModule,
   ],
   providers: [
     IngestionProcessor,
@@ -30,6 +40,8 @@ import { ResolutionModule } from '../resolution/resolution.module';
     InsightsProcessor,
     ResolutionProcessor,
     AnalyticsProcessor,
+    HistoryProcessor,
+    ExchangesProcessor,
   ],
   exports: [
     BullModule,
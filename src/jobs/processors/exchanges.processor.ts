@@ -0,0 +1,29 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { DivergenceService } from '../../exchanges/divergence.service';
+
+@Processor('exchanges')
+export class ExchangesProcessor {
+  private readonly logger = new Logger(ExchangesProcessor.name);
+
+  constructor(private divergenceService: DivergenceService) {}
+
+  @Process('divergence')
+  async handleDivergence(job: Job) {
+    this.logger.log(`Computing cross-exchange divergences (job ${job.id})`);
+
+    try {
+      const results = await this.divergenceService.computeDivergences();
+
+      return {
+        success: true,
+        results,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Divergence job failed:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { HistoryService } from '../../history/history.service';
+
+@Processor('history')
+export class HistoryProcessor {
+  private readonly logger = new Logger(HistoryProcessor.name);
+
+  constructor(private historyService: HistoryService) {}
+
+  @Process('retention')
+  async handleRetention(job: Job) {
+    this.logger.log(`Applying price history retention (job ${job.id})`);
+
+    try {
+      const results = await this.historyService.applyRetention();
+
+      return {
+        success: true,
+        results,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Price history retention job failed:', error);
+      throw error;
+    }
+  }
+}
@@ -1,48 +1,91 @@
-import { Process, Processor } from '@nestjs/bull';
+import { InjectQueue, OnQueueCompleted, Process, Processor } from '@nestjs/bull';
 import { Logger } from '@nestjs/common';
-import { Job } from 'bull';
+import { Job, Queue } from 'bull';
+import { RedisService } from '../../common/redis/redis.service';
 import { ConnectorsService } from '../../connectors/connectors.service';
+import { ConnectorName, MARKET_SOURCES } from '../../connectors/sources';
+import { MarketChangeSet } from '../../connectors/types';
 import { RankingService } from '../../ranking/ranking.service';
+import { HistoryService } from '../../history/history.service';
+import { MatchingService } from '../../exchanges/matching.service';
+import { DivergenceService } from '../../exchanges/divergence.service';
+import { RealtimeService } from '../../realtime/realtime.service';
 
 export interface IngestionJobData {
-  connector?: 'polymarket' | 'kalshi';
+  connector?: ConnectorName;
+  externalId?: string; // refresh just this market; needs a connector
   force?: boolean;
 }
 
+/**
+ * Connector-wide pulls share one job id per connector, so a connector never runs two
+ * pulls at once: adding a pull while one is queued or running is a no-op. These jobs
+ * must be removed once done or the id would block every later pull
+ */
+export const connectorPullJobId = (name: ConnectorName) => `pull:${name}`;
+
+// Every connector gets a worker slot, so one slow vendor doesn't hold up the rest
+const PULL_CONCURRENCY = MARKET_SOURCES.length;
+
+// Per job and kind of change
+const MAX_BROADCASTS = 100;
+
+// One rebuild at a time for all connectors; the delay lets pulls finishing together share it
+const SYNC_JOB_ID = 'sync';
+const SYNC_DELAY_MS = 5000;
+// Set by every trigger and cleared when a sync starts, so triggers during a sync aren't lost
+const SYNC_PENDING_KEY = 'ingestion:sync:pending';
+
 @Processor('ingestion')
 export class IngestionProcessor {
   private readonly logger = new Logger(IngestionProcessor.name);
 
   constructor(
+    @InjectQueue('ingestion') private ingestionQueue: Queue,
     private connectorsService: ConnectorsService,
     private rankingService: RankingService,
+    private historyService: HistoryService,
+    private matchingService: MatchingService,
+    private divergenceService: DivergenceService,
+    private redis: RedisService,
+    private realtimeService: RealtimeService,
   ) {}
 
-  @Process('pull')
+  /**
+   * A pull without a connector fans out into one job per enabled connector. A
+   * connector's pull is skipped while another for it is still queued or running
+   */
+  @Process({ name: 'pull', concurrency: PULL_CONCURRENCY })
   async handlePull(job: Job<IngestionJobData>) {
-    const { connector, force } = job.data;
-    
-    this.logger.log(`Starting market ingestion${connector ? ` for ${connector}` : ''}`);
+    const { connector, externalId, force } = job.data;
+
+    if (!connector) {
+      return this.fanOut(force);
+    }
+
+    if (externalId) {
+      return this.refreshMarket(connector, externalId, force);
+    }
+
+    this.logger.log(`Starting market ingestion for ${connector}`);
     
     try {
-      const results = await this.connectorsService.fetchAndStoreMarkets();
+      const { changes, ...results } = await this.connectorsService.fetchAndStoreMarkets(connector);
       
       this.logger.log(
-        `Ingestion completed: ${results.total} total, ${results.new} new, ${results.updated} updated, ${results.errors.length} errors`
+        `Ingestion completed for ${connector}: ${results.total} total, ${results.new} new, ${results.priceChanged} price changed, ${results.metadataChanged} metadata changed, ${results.errors.length} errors`
       );
 
-      // Trigger ranking rebuild if we have new or updated markets
-      if (results.new > 0 || results.updated > 0 || force) {
-        await this.rankingService.triggerRankingRebuild();
-      }
+      await this.afterIngestion(changes, force);
 
       return {
         success: true,
+        connector,
         results,
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
-      this.logger.error('Ingestion failed:', error);
+      this.logger.error(`Ingestion failed for ${connector}:`, error);
       throw error;
     }
   }
@@ -75,4 +118,125 @@ export class IngestionProcessor {
       throw error;
     }
   }
+
+  /**
+   * Rebuild what's derived from stored markets, once for however many pulls queued it
+   */
+  @Process('sync')
+  async handleSync() {
+    await this.redis.del(SYNC_PENDING_KEY);
+    this.logger.log('Rebuilding merged cards, matches and rankings after ingestion');
+
+    // Storing only refreshes each market's own exchange entry, so merged cards are rebuilt first
+    try {
+      await this.matchingService.syncMergedExchanges();
+      await this.matchingService.findMatches();
+      await this.divergenceService.triggerDivergenceCheck();
+    } catch (error) {
+      this.logger.warn(`Cross-exchange matching skipped: ${error.message}`);
+    }
+
+    // Drift inputs come from our own history so they're comparable across sources
+    await this.historyService.refreshPriceChanges();
+    await this.rankingService.triggerRankingRebuild();
+
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Adding the sync while it runs is a no-op, so a trigger that came in meanwhile
+   * queues the next one once this one is out of the way
+   */
+  @OnQueueCompleted()
+  async onCompleted(job: Job) {
+    if (job.name === 'sync' && (await this.redis.exists(SYNC_PENDING_KEY))) {
+      await this.queueSync();
+    }
+  }
+
+  private async fanOut(force?: boolean) {
+    const connectors = await this.connectorsService.getEnabledConnectors();
+
+    for (const { name } of connectors) {
+      await this.ingestionQueue.add('pull', { connector: name, force }, {
+        jobId: connectorPullJobId(name),
+        removeOnComplete: true,
+        removeOnFail: true,
+      });
+    }
+
+    this.logger.log(`Queued ingestion for ${connectors.length} connectors`);
+
+    return {
+      success: true,
+      connectors: connectors.map(c => c.name),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private async refreshMarket(connector: ConnectorName, externalId: string, force?: boolean) {
+    this.logger.log(`Refreshing market ${externalId} from ${connector}`);
+
+    try {
+      const changes = await this.connectorsService.refreshMarket(connector, externalId);
+
+      await this.afterIngestion(changes, force);
+
+      return {
+        success: true,
+        connector,
+        externalId,
+        new: changes.created.length,
+        priceChanged: changes.priceChanged.length,
+        metadataChanged: changes.metadataChanged.length,
+        unchanged: changes.unchanged.length,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`Refresh failed for ${connector} market ${externalId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Push a pull's changes to clients and queue the shared rebuild. Skipped when every
+   * market came back unchanged, unless forced
+   */
+  private async afterIngestion(changes: MarketChangeSet, force?: boolean): Promise<void> {
+    const { created, priceChanged, metadataChanged } = changes;
+    if (created.length + priceChanged.length + metadataChanged.length === 0 && !force) {
+      return;
+    }
+
+    await this.redis.set(SYNC_PENDING_KEY, '1');
+    await this.queueSync();
+
+    await this.broadcastChanges(changes);
+  }
+
+  private async queueSync(): Promise<void> {
+    await this.ingestionQueue.add('sync', {}, {
+      jobId: SYNC_JOB_ID,
+      delay: SYNC_DELAY_MS,
+      removeOnComplete: true,
+      removeOnFail: true,
+    });
+  }
+
+  /**
+   * Announce new markets and price moves. Past the cap (a first run creates
+   * thousands) clients pick markets up from the rebuilt feed instead
+   */
+  private async broadcastChanges({ created, priceChanged }: MarketChangeSet): Promise<void> {
+    for (const market of created.slice(0, MAX_BROADCASTS)) {
+      await this.realtimeService.broadcastNewMarket(market);
+    }
+
+    for (const market of priceChanged.slice(0, MAX_BROADCASTS)) {
+      await this.realtimeService.broadcastMarketUpdate(market);
+    }
+  }
 }
@@ -27,6 +27,22 @@ export class RankingProcessor {
         `Ranking rebuild completed for ${segment}: ${results.totalMarkets} markets processed, ${results.topMarkets} in top-K cache`
       );
 
+      // Diversify the fresh top-K; the feed serves plain rank order if this fails
+      try {
+        await this.rankingService.applyDiversitySampling(segment);
+      } catch (error) {
+        this.logger.warn(`Serving undiversified ranking for ${segment}`);
+      }
+
+      // Carousels are global, so only the default segment refreshes them
+      if (segment === 'default') {
+        try {
+          await this.rankingService.refreshCarousels();
+        } catch (error) {
+          this.logger.warn('Carousels keep their previous contents until the next rebuild');
+        }
+      }
+
       return {
         success: true,
         segment,
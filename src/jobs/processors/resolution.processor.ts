@@ -2,10 +2,11 @@ import { Process, Processor } from '@nestjs/bull';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bull';
 import { ResolutionService } from '../../resolution/resolution.service';
+import { ConnectorName } from '../../connectors/sources';
 
 export interface ResolutionJobData {
   marketId?: string;
-  source?: 'polymarket' | 'kalshi';
+  source?: ConnectorName;
   force?: boolean;
 }
 
@@ -49,7 +50,7 @@ export class ResolutionProcessor {
       const results = await this.resolutionService.processPayouts(userId, marketId);
       
       this.logger.log(
-        `Payout processing completed: ${results.processed} payouts processed, ${results.totalXP} XP awarded`
+        `Payout processing completed: ${results.processed} payouts processed, ${results.skipped} already paid, ${results.totalXP} XP awarded`
       );
 
       return {
@@ -5,6 +5,7 @@ export interface MarketData {
   liquidity: number;
   volume24h: number;
   priceChange24: number;
+  volumeVelocity?: number;
   mentionScore: number;
   endDate: Date;
 }
@@ -58,6 +59,9 @@ export class RankingAlgoService {
     
     // Normalize social mentions
     const socialNorm = this.normalizeSocial(market.mentionScore);
+
+    // Normalize volume acceleration (only growth counts as trending)
+    const velocityNorm = this.normalizeVelocity(market.volumeVelocity ?? 0);
     
     // Calculate confidence score
     const confidence = this.clamp(
@@ -70,9 +74,9 @@ export class RankingAlgoService {
       1
     );
     
-    // Calculate trend score (combination of drift and social)
+    // Calculate trend score (combination of drift, social and volume velocity)
     const trendScore = this.clamp(
-      0.5 * driftNorm + 0.5 * socialNorm,
+      0.4 * driftNorm + 0.4 * socialNorm + 0.2 * velocityNorm,
       0,
       1
     );
@@ -109,6 +113,14 @@ export class RankingAlgoService {
     return Math.min(1, Math.abs(priceChange) / 20);
   }
 
+  /**
+   * Normalize volume velocity (relative 24h volume growth)
+   * Formula: clamp(velocity, 0, 1) - doubling volume saturates
+   */
+  private normalizeVelocity(velocity: number): number {
+    return this.clamp(velocity, 0, 1);
+  }
+
   /**
    * Calculate time decay factor
    * Formula: e^(-(hoursToEnd/720)) where 720 hours = 30 days half-life
@@ -182,10 +194,10 @@ export class RankingAlgoService {
     formula: string;
   } {
     return {
-      version: '2.0.0',
+      version: '2.1.0',
       weights: this.weights,
       description: 'Multi-factor ranking algorithm for prediction markets',
-      formula: 'confidence = w1*liquidityNorm + w2*volNorm + w3*driftNorm + w4*socialNorm + w5*timeDecay',
+      formula: 'confidence = w1*liquidityNorm + w2*volNorm + w3*driftNorm + w4*socialNorm + w5*timeDecay; trendScore = 0.4*driftNorm + 0.4*socialNorm + 0.2*velocityNorm',
     };
   }
 }
@@ -17,6 +17,27 @@ export interface DiversityResult {
   segment: string;
 }
 
+export interface RankedSlice {
+  version: string;
+  marketIds: string[];
+  restarted: boolean; // the requested version expired, so the slice starts at the top of the current one
+}
+
+export interface CarouselResult {
+  movers1h: number;
+  movers24h: number;
+  closingSoon: number;
+  trending: number;
+}
+
+const CAROUSEL_SIZE = 50;
+const CAROUSEL_TTL = 60 * 60; // 1 hour, matches the top-K cache
+const CLOSING_HORIZON_MS = 7 * 24 * 60 * 60 * 1000; // widest closing-soon window served
+
+// Ranked snapshots outlive the current pointer so cursors survive re-ranking between pages
+const RANKED_SNAPSHOT_TTL = 2 * 60 * 60; // 2 hours
+const RANKED_VERSION_TTL = 60 * 60; // 1 hour, matches the top-K cache
+
 @Injectable()
 export class RankingService {
   private readonly logger = new Logger(RankingService.name);
@@ -33,7 +54,7 @@ export class RankingService {
   calculateScore(market: any): number {
     const {
       volume,
-      lastChange24h,
+      priceChange24,
       endDate,
       liquidity,
       trendScore = 0,
@@ -42,8 +63,8 @@ export class RankingService {
     // Normalized volume (log scale, capped at 1)
     const normalizedVolume = Math.min(1, Math.log10(volume + 1) / 6);
 
-    // Volatility score (price change in last 24h)
-    const volatilityScore = Math.min(1, Math.abs(lastChange24h || 0) / 20);
+    // Volatility score (price change in last 24h, derived from our own snapshots)
+    const volatilityScore = Math.min(1, Math.abs(priceChange24 || 0) / 20);
 
     // Time urgency (exponential decay based on days to end)
     const daysToEnd = (new Date(endDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24);
@@ -122,6 +143,8 @@ export class RankingService {
       // Set cache expiry (1 hour)
       await this.redis.expire(cacheKey, 3600);
 
+      await this.publishRankedSnapshot(segment, topMarkets.map(market => market.id));
+
       const processingTime = Date.now() - startTime;
       const result: RankingResult = {
         totalMarkets: markets.length,
@@ -149,17 +172,19 @@ export class RankingService {
 
     try {
       const cacheKey = `feed:top:${segment}`;
-      const topMarketIds = await this.redis.zrevrange(cacheKey, 0, 99); // Get top 100
+      const rankedIds = await this.redis.zrevrange(cacheKey, 0, -1);
+      const topMarketIds = rankedIds.slice(0, 100); // Sample from the top 100
 
       if (topMarketIds.length === 0) {
         return { sampledMarkets: 0, diversityScore: 0, segment };
       }
 
-      // Get market details
-      const markets = await this.prisma.marketItem.findMany({
+      // Get market details, keeping rank order
+      const rank = new Map(topMarketIds.map((id, index) => [id, index]));
+      const markets = (await this.prisma.marketItem.findMany({
         where: { id: { in: topMarketIds } },
         select: { id: true, tags: true, confidence: true },
-      });
+      })).sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
 
       // Simple diversity sampling: no two markets with same primary tag in a row
       const sampledMarkets: string[] = [];
@@ -189,6 +214,13 @@ export class RankingService {
 
       await this.redis.expire(diversityKey, 1800); // 30 minutes
 
+      // Feed order: diversified head, then everything else in rank order
+      const sampled = new Set(sampledMarkets);
+      await this.publishRankedSnapshot(segment, [
+        ...sampledMarkets,
+        ...rankedIds.filter(id => !sampled.has(id)),
+      ]);
+
       const diversityScore = sampledMarkets.length / markets.length;
       const result: DiversityResult = {
         sampledMarkets: sampledMarkets.length,
@@ -234,6 +266,136 @@ export class RankingService {
     }
   }
 
+  /**
+   * Rebuild the home-screen carousels (movers, closing soon, trending) in Redis.
+   * Movers and trending are stored by position; closing soon is scored by end time
+   * so any window up to the horizon can be read with a range query
+   */
+  async refreshCarousels(): Promise<CarouselResult> {
+    try {
+      const now = Date.now();
+      const markets = await this.prisma.marketItem.findMany({
+        where: {
+          eligible: true,
+          endDate: { gt: new Date(now) },
+        },
+        select: {
+          id: true,
+          endDate: true,
+          priceChange1h: true,
+          priceChange24: true,
+          confidence: true,
+          trendScore: true,
+        },
+      });
+
+      const byMove = (field: 'priceChange1h' | 'priceChange24') => markets
+        .filter(market => market[field] !== 0)
+        .sort((a, b) => Math.abs(b[field]) - Math.abs(a[field]))
+        .slice(0, CAROUSEL_SIZE)
+        .map(market => market.id);
+
+      const movers1h = byMove('priceChange1h');
+      const movers24h = byMove('priceChange24');
+
+      // Same thresholds as FeedService.getTrendingMarkets
+      const trending = markets
+        .filter(market => market.confidence > 0.7 && market.trendScore > 0.5)
+        .sort((a, b) => b.trendScore - a.trendScore || b.confidence - a.confidence)
+        .slice(0, CAROUSEL_SIZE)
+        .map(market => market.id);
+
+      const closing = markets.filter(market => market.endDate.getTime() <= now + CLOSING_HORIZON_MS);
+
+      await this.writeCarousel('feed:movers:1h', movers1h.map((id, index) => [index, id]));
+      await this.writeCarousel('feed:movers:24h', movers24h.map((id, index) => [index, id]));
+      await this.writeCarousel('feed:trending', trending.map((id, index) => [index, id]));
+      await this.writeCarousel('feed:closing', closing.map(market => [market.endDate.getTime(), market.id]));
+
+      const result: CarouselResult = {
+        movers1h: movers1h.length,
+        movers24h: movers24h.length,
+        closingSoon: closing.length,
+        trending: trending.length,
+      };
+
+      this.logger.log(`Carousels refreshed: ${JSON.stringify(result)}`);
+
+      return result;
+    } catch (error) {
+      this.logger.error('Carousel refresh failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a carousel sorted set. An empty carousel is kept as a marker so
+   * readers can tell "nothing qualifies" from a cold cache
+   */
+  private async writeCarousel(key: string, entries: Array<[number, string]>): Promise<void> {
+    await this.redis.del(key);
+    await this.redis.zaddMany(key, entries);
+    await this.redis.set(`${key}:refreshedAt`, Date.now().toString(), CAROUSEL_TTL);
+    await this.redis.expire(key, CAROUSEL_TTL);
+  }
+
+  /**
+   * Get a slice of the ranked feed order. Reads the given snapshot version when it
+   * is still alive; otherwise restarts from the top of the current one, since offsets
+   * into another version are meaningless. Null when the ranking cache is cold
+   */
+  async getRankedSlice(
+    segment: string,
+    start: number,
+    count: number,
+    version?: string,
+  ): Promise<RankedSlice | null> {
+    try {
+      let resolvedVersion = version;
+      let restarted = false;
+
+      if (!resolvedVersion || !(await this.redis.exists(`feed:ranked:${segment}:${resolvedVersion}`))) {
+        resolvedVersion = await this.redis.get(`feed:version:${segment}`);
+        if (!resolvedVersion) {
+          return null;
+        }
+
+        if (version) {
+          this.logger.warn(`Ranked snapshot ${version} for ${segment} expired, restarting from ${resolvedVersion}`);
+          restarted = true;
+        }
+      }
+
+      const from = restarted ? 0 : start;
+      const marketIds = await this.redis.zrange(
+        `feed:ranked:${segment}:${resolvedVersion}`,
+        from,
+        from + count - 1,
+      );
+
+      return { version: resolvedVersion, marketIds, restarted };
+    } catch (error) {
+      this.logger.error(`Failed to get ranked slice for ${segment}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store the feed order as a new immutable snapshot and point the segment at it
+   */
+  private async publishRankedSnapshot(segment: string, marketIds: string[]): Promise<void> {
+    if (marketIds.length === 0) {
+      return;
+    }
+
+    const version = Date.now().toString();
+    const snapshotKey = `feed:ranked:${segment}:${version}`;
+
+    await this.redis.zaddMany(snapshotKey, marketIds.map((id, index) => [index, id]));
+    await this.redis.expire(snapshotKey, RANKED_SNAPSHOT_TTL);
+    await this.redis.set(`feed:version:${segment}`, version, RANKED_VERSION_TTL);
+  }
+
   /**
    * Trigger ranking rebuild via job queue
    */
@@ -255,9 +417,10 @@ export class RankingService {
     lastUpdated: Date | null;
   }> {
     try {
-      const [topCount, diversityCount] = await Promise.all([
+      const [topCount, diversityCount, version] = await Promise.all([
         this.redis.zcard(`feed:top:${segment}`),
         this.redis.zcard(`feed:diversity:${segment}`),
+        this.redis.get(`feed:version:${segment}`),
       ]);
 
       const totalMarkets = await this.prisma.marketItem.count({
@@ -271,7 +434,7 @@ export class RankingService {
         totalMarkets,
         topMarkets: topCount,
         diversityMarkets: diversityCount,
-        lastUpdated: new Date(), // TODO: Store actual last updated time
+        lastUpdated: version ? new Date(Number(version)) : null,
       };
     } catch (error) {
       this.logger.error(`Failed to get ranking stats for ${segment}:`, error);
@@ -183,6 +183,23 @@ export class RealtimeGateway implements OnGatewayConnection, OnGatewayDisconnect
     }
   }
 
+  /**
+   * Broadcast a wide price gap between exchanges to all connected clients
+   */
+  async broadcastDivergence(divergence: any, segment: string = 'default') {
+    try {
+      this.server.to(`segment:${segment}`).emit('market:divergence', {
+        divergence,
+        segment,
+        timestamp: new Date().toISOString(),
+      });
+
+      this.logger.log(`Broadcasted divergence to segment ${segment}: ${divergence.matchId}`);
+    } catch (error) {
+      this.logger.error(`Failed to broadcast divergence:`, error);
+    }
+  }
+
   /**
    * Send notification to specific user
    */
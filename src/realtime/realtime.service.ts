@@ -45,6 +45,24 @@ export class RealtimeService {
     }
   }
 
+  /**
+   * Broadcast a wide price gap between exchanges listing the same market
+   */
+  async broadcastDivergence(divergence: any, segment: string = 'default'): Promise<void> {
+    try {
+      // Publish to Redis for cross-instance communication
+      await this.redis.publish('market:divergence', JSON.stringify({
+        divergence,
+        segment,
+        timestamp: new Date().toISOString(),
+      }));
+
+      this.logger.log(`Published divergence for match ${divergence.matchId} to segment ${segment}`);
+    } catch (error) {
+      this.logger.error(`Failed to publish divergence:`, error);
+    }
+  }
+
   /**
    * Send notification to specific user
    */
@@ -169,6 +187,16 @@ export class RealtimeService {
         }
       });
 
+      await this.redis.subscribe('market:divergence', (message) => {
+        try {
+          const data = JSON.parse(message);
+          this.logger.log(`Received market:divergence from Redis: ${data.divergence.matchId}`);
+          // The gateway will handle the actual broadcasting
+        } catch (error) {
+          this.logger.error('Failed to parse market:divergence message from Redis:', error);
+        }
+      });
+
       this.logger.log('Redis pub/sub setup completed');
     } catch (error) {
       this.logger.error('Failed to setup Redis pub/sub:', error);
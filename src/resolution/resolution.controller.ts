@@ -3,6 +3,7 @@ import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagg
 import { ResolutionService } from './resolution.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { AdminGuard } from '../auth/guards/admin.guard';
+import { ConnectorName } from '../connectors/sources';
 
 @ApiTags('resolution')
 @Controller('resolution')
@@ -18,7 +19,7 @@ export class ResolutionController {
   @ApiResponse({ status: 403, description: 'Admin access required' })
   async checkOutcomes(
     @Query('marketId') marketId?: string,
-    @Query('source') source?: 'polymarket' | 'kalshi',
+    @Query('source') source?: ConnectorName,
     @Query('force') force: boolean = false,
   ) {
     const results = await this.resolutionService.checkOutcomes(marketId, source, force);
@@ -48,6 +49,22 @@ export class ResolutionController {
     };
   }
 
+  @Post('recompute-accuracy')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Recompute user prediction accuracy from resolved swipes (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Accuracy recomputed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async recomputeAccuracy(@Query('userId') userId?: string) {
+    const results = await this.resolutionService.recomputeAccuracy(userId ? [userId] : undefined);
+    
+    return {
+      success: true,
+      results,
+    };
+  }
+
   @Get('stats')
   @UseGuards(JwtAuthGuard, AdminGuard)
   @ApiBearerAuth()
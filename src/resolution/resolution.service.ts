@@ -1,9 +1,16 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../common/prisma/prisma.service';
 import { ConnectorsService } from '../connectors/connectors.service';
+import { MarketOutcome } from '../connectors/types';
+import { ConnectorName, toSource, toConnectorName } from '../connectors/sources';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
 
+const CORRECT_PREDICTION_XP = 50;
+
+// Outcomes that settle predictions; categorical markets settle as 'RESOLVED' with a winningOutcome
+const SETTLED_OUTCOMES = ['YES', 'NO', 'RESOLVED'];
+
 @Injectable()
 export class ResolutionService {
   private readonly logger = new Logger(ResolutionService.name);
@@ -19,7 +26,7 @@ export class ResolutionService {
    */
   async checkOutcomes(
     marketId?: string,
-    source?: 'polymarket' | 'kalshi',
+    source?: ConnectorName,
     force: boolean = false,
   ): Promise<{
     checked: number;
@@ -37,7 +44,7 @@ export class ResolutionService {
     try {
       // Get markets to check
       const where: any = {
-        outcome: 'UNKNOWN',
+        OR: [{ outcome: null }, { outcome: 'UNKNOWN' }],
         endDate: { lte: new Date() }, // Only expired markets
       };
 
@@ -46,16 +53,29 @@ export class ResolutionService {
       }
 
       if (source) {
-        where.source = source.toUpperCase();
+        where.source = toSource(source);
       }
 
+      // Least recently checked first, so markets the vendor hasn't settled yet
+      // rotate to the back instead of filling every batch
       const markets = await this.prisma.marketItem.findMany({
         where,
+        orderBy: [
+          { lastOutcomeCheckAt: { sort: 'asc', nulls: 'first' } },
+          { endDate: 'asc' },
+        ],
         take: 100, // Limit to prevent overwhelming the system
       });
 
       this.logger.log(`Found ${markets.length} markets to check`);
 
+      if (markets.length > 0) {
+        await this.prisma.marketItem.updateMany({
+          where: { id: { in: markets.map(market => market.id) } },
+          data: { lastOutcomeCheckAt: new Date() },
+        });
+      }
+
       const results = [];
       let checked = 0;
       let resolved = 0;
@@ -64,13 +84,22 @@ export class ResolutionService {
       for (const market of markets) {
         try {
           checked++;
-          const outcome = await this.checkMarketOutcome(market);
+          const result = await this.checkMarketOutcome(market);
           
-          if (outcome && outcome !== 'UNKNOWN') {
+          if (result.status !== 'pending') {
+            const outcome = result.status === 'voided'
+              ? 'VOID'
+              : result.winningOutcome ? 'RESOLVED' : result.outcome;
+
             // Update market outcome
             await this.prisma.marketItem.update({
               where: { id: market.id },
-              data: { outcome },
+              data: {
+                outcome,
+                winningOutcome: result.winningOutcome,
+                resolvedAt: result.resolvedAt ?? new Date(),
+                resolutionSource: result.source,
+              },
             });
 
             resolved++;
@@ -101,6 +130,19 @@ export class ResolutionService {
         }
       }
 
+      // Settled markets change the accuracy of everyone who swiped on them
+      const settledMarketIds = results
+        .filter(r => SETTLED_OUTCOMES.includes(r.outcome))
+        .map(r => r.marketId);
+
+      if (settledMarketIds.length > 0) {
+        try {
+          await this.recomputeAccuracyForMarkets(settledMarketIds);
+        } catch (error) {
+          this.logger.error('Failed to recompute accuracy after resolution:', error);
+        }
+      }
+
       return {
         checked,
         resolved,
@@ -114,34 +156,134 @@ export class ResolutionService {
   }
 
   /**
-   * Check outcome for a specific market
+   * Recompute accuracy for every user who swiped on the given markets
    */
-  private async checkMarketOutcome(market: any): Promise<string | null> {
-    try {
-      const connector = this.connectorsService.getConnector(market.source.toLowerCase());
-      if (!connector) {
-        throw new Error(`No connector found for source: ${market.source}`);
-      }
+  async recomputeAccuracyForMarkets(marketIds: string[]): Promise<{ updated: number }> {
+    const swipers = await this.prisma.swipe.findMany({
+      where: { marketId: { in: marketIds } },
+      select: { userId: true },
+      distinct: ['userId'],
+    });
+
+    return this.recomputeAccuracy(swipers.map(swipe => swipe.userId));
+  }
 
-      // This would typically call the connector's API to get the actual outcome
-      // For now, we'll implement a simple heuristic based on prices
-      
-      // If the market has ended and we have final prices, determine outcome
-      if (market.yesPrice > 0.5) {
-        return 'YES';
-      } else if (market.noPrice > 0.5) {
-        return 'NO';
+  /**
+   * Recompute UserStats accuracy and calibration from resolved swipes (all users
+   * when no ids given). RIGHT swipes are YES predictions, LEFT swipes are NO
+   * predictions, and voided markets are left out of both counts. On categorical
+   * markets the prediction is on the swiped outcome winning.
+   */
+  async recomputeAccuracy(userIds?: string[]): Promise<{ updated: number }> {
+    const users = await this.prisma.userStats.findMany({
+      where: userIds ? { userId: { in: userIds } } : undefined,
+      select: { userId: true },
+    });
+
+    let updated = 0;
+
+    for (const { userId } of users) {
+      try {
+        // Categorical outcomes can't be compared in a query, so settle swipes in memory
+        const swipes = await this.prisma.swipe.findMany({
+          where: {
+            userId,
+            market: { outcome: { in: SETTLED_OUTCOMES } },
+          },
+          select: {
+            direction: true,
+            outcomeId: true,
+            yesPriceAtSwipe: true,
+            market: { select: { outcome: true, winningOutcome: true } },
+          },
+        });
+
+        const settled = swipes.map(swipe => ({
+          direction: swipe.direction,
+          yesPrice: swipe.yesPriceAtSwipe,
+          outcome: this.getSwipeOutcome(swipe.market, swipe),
+        }));
+        const resolvedPredictions = settled.length;
+        const correctPredictions = settled.filter(swipe =>
+          swipe.direction === 'RIGHT' ? swipe.outcome === 'YES' : swipe.outcome === 'NO',
+        ).length;
+
+        await this.prisma.userStats.update({
+          where: { userId },
+          data: {
+            resolvedPredictions,
+            correctPredictions,
+            accuracy: resolvedPredictions > 0 ? correctPredictions / resolvedPredictions : 0,
+            ...this.calculateCalibration(settled.filter(swipe => swipe.yesPrice !== null)),
+          },
+        });
+
+        updated++;
+      } catch (error) {
+        this.logger.error(`Failed to recompute accuracy for user ${userId}:`, error);
       }
+    }
 
-      // TODO: Implement actual API calls to get real outcomes
-      // This would involve calling the connector's API with the external ID
-      // and parsing the response to determine the actual outcome
+    this.logger.log(`Recomputed accuracy for ${updated}/${users.length} users`);
 
-      return null; // Unable to determine outcome
-    } catch (error) {
-      this.logger.error(`Failed to check outcome for market ${market.id}:`, error);
-      return null;
+    return { updated };
+  }
+
+  /**
+   * Score swipes against the market price at swipe time.
+   * brierScore treats each call as a 0/1 forecast, marketBrierScore scores the
+   * snapshotted yesPrice on the same markets, and edge is the mean return of
+   * buying the swiped side at that price (positive means the user beat the market).
+   */
+  calculateCalibration(
+    swipes: Array<{ direction: string; yesPrice: number; outcome: string }>,
+  ): {
+    calibratedPredictions: number;
+    brierScore: number | null;
+    marketBrierScore: number | null;
+    edge: number | null;
+  } {
+    if (swipes.length === 0) {
+      return { calibratedPredictions: 0, brierScore: null, marketBrierScore: null, edge: null };
+    }
+
+    let userBrier = 0;
+    let marketBrier = 0;
+    let edge = 0;
+
+    for (const swipe of swipes) {
+      const outcome = swipe.outcome === 'YES' ? 1 : 0;
+      const forecast = swipe.direction === 'RIGHT' ? 1 : 0;
+
+      userBrier += Math.pow(forecast - outcome, 2);
+      marketBrier += Math.pow(swipe.yesPrice - outcome, 2);
+      edge += swipe.direction === 'RIGHT' ? outcome - swipe.yesPrice : swipe.yesPrice - outcome;
     }
+
+    return {
+      calibratedPredictions: swipes.length,
+      brierScore: userBrier / swipes.length,
+      marketBrierScore: marketBrier / swipes.length,
+      edge: edge / swipes.length,
+    };
+  }
+
+  /**
+   * Check outcome for a specific market with its exchange
+   */
+  private async checkMarketOutcome(market: any): Promise<MarketOutcome> {
+    const name = toConnectorName(market.source);
+    const connector = this.connectorsService.getConnector(name);
+    if (!connector) {
+      throw new Error(`No connector found for source: ${market.source}`);
+    }
+
+    // Venues that can't report settlements leave their markets pending
+    if (!this.connectorsService.getCapabilities(name)?.outcomes) {
+      return { status: 'pending' };
+    }
+
+    return connector.fetchOutcome(market.externalId);
   }
 
   /**
@@ -152,6 +294,7 @@ export class ResolutionService {
     marketId?: string,
   ): Promise<{
     processed: number;
+    skipped: number;
     totalXP: number;
     results: Array<{
       userId: string;
@@ -165,7 +308,7 @@ export class ResolutionService {
     try {
       // Get resolved markets with user swipes
       const where: any = {
-        outcome: { not: 'UNKNOWN' },
+        outcome: { in: SETTLED_OUTCOMES }, // Voided markets pay nothing
         swipes: {
           some: {
             direction: 'RIGHT', // Only right swipes get payouts
@@ -192,27 +335,36 @@ export class ResolutionService {
               },
             },
           },
+          payouts: {
+            select: { userId: true },
+          },
         },
       });
 
       const results = [];
       let processed = 0;
+      let skipped = 0;
       let totalXP = 0;
 
       for (const market of markets) {
+        const paidUserIds = new Set(market.payouts.map(payout => payout.userId));
+
         for (const swipe of market.swipes) {
+          if (paidUserIds.has(swipe.userId)) {
+            skipped++;
+            continue;
+          }
+
           try {
             const correct = this.isPredictionCorrect(market, swipe);
-            const xpAwarded = correct ? 50 : 0; // Award XP for correct predictions
+            const xpAwarded = correct ? CORRECT_PREDICTION_XP : 0;
 
             if (xpAwarded > 0) {
-              // Update user XP
-              await this.prisma.userStats.update({
-                where: { userId: swipe.userId },
-                data: {
-                  xp: { increment: xpAwarded },
-                },
-              });
+              const paid = await this.applyPayout(swipe.userId, market.id, xpAwarded, 'correct_prediction');
+              if (!paid) {
+                skipped++;
+                continue;
+              }
 
               totalXP += xpAwarded;
             }
@@ -239,6 +391,7 @@ export class ResolutionService {
 
       return {
         processed,
+        skipped,
         totalXP,
         results,
       };
@@ -248,17 +401,66 @@ export class ResolutionService {
     }
   }
 
+  /**
+   * Record a payout in the ledger and credit the XP in one transaction.
+   * Returns false when the ledger already holds a payout for this user and market.
+   */
+  private async applyPayout(
+    userId: string,
+    marketId: string,
+    amount: number,
+    reason: string,
+  ): Promise<boolean> {
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.payout.create({
+          data: { userId, marketId, amount, reason },
+        });
+
+        await tx.userStats.update({
+          where: { userId },
+          data: {
+            xp: { increment: amount },
+          },
+        });
+      });
+
+      return true;
+    } catch (error) {
+      // Unique (userId, marketId) violation: a concurrent run already paid this out
+      if (error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Check if a user's prediction was correct
    */
   private isPredictionCorrect(market: any, swipe: any): boolean {
     // A right swipe means the user predicted the outcome would be "YES"
     // Check if the market outcome matches the prediction
+    const outcome = this.getSwipeOutcome(market, swipe);
     if (swipe.direction === 'RIGHT') {
-      return market.outcome === 'YES';
+      return outcome === 'YES';
     } else {
-      return market.outcome === 'NO';
+      return outcome === 'NO';
+    }
+  }
+
+  /**
+   * How a settled market resolved for a swipe: categorical markets resolve YES
+   * for swipes on the winning outcome and NO for the rest
+   */
+  private getSwipeOutcome(
+    market: { outcome: string | null; winningOutcome?: string | null },
+    swipe: { outcomeId?: string | null },
+  ): string | null {
+    if (market.outcome !== 'RESOLVED') {
+      return market.outcome;
     }
+    return swipe.outcomeId && swipe.outcomeId === market.winningOutcome ? 'YES' : 'NO';
   }
 
   /**
@@ -266,7 +468,7 @@ export class ResolutionService {
    */
   async queueOutcomeCheck(
     marketId?: string,
-    source?: 'polymarket' | 'kalshi',
+    source?: ConnectorName,
     force: boolean = false,
   ): Promise<void> {
     await this.resolutionQueue.add('outcomes', {
@@ -319,9 +521,10 @@ export class ResolutionService {
         }),
       ]);
 
-      // Get payout statistics
-      const payoutStats = await this.prisma.userStats.aggregate({
-        _sum: { xp: true },
+      // Get payout statistics from the ledger
+      const payoutStats = await this.prisma.payout.aggregate({
+        _count: { _all: true },
+        _sum: { amount: true },
       });
 
       return {
@@ -329,8 +532,8 @@ export class ResolutionService {
         resolvedMarkets: resolved,
         unresolvedMarkets: unresolved,
         resolutionRate: total > 0 ? resolved / total : 0,
-        totalPayouts: 0, // TODO: Track actual payout count
-        totalXPAwarded: payoutStats._sum.xp || 0,
+        totalPayouts: payoutStats._count._all,
+        totalXPAwarded: payoutStats._sum.amount || 0,
       };
     } catch (error) {
       this.logger.error('Failed to get resolution stats:', error);
@@ -4,12 +4,14 @@ import { SwipesController } from './swipes.controller';
 import { PrismaModule } from '../common/prisma/prisma.module';
 import { RedisModule } from '../common/redis/redis.module';
 import { RateLimitModule } from '../common/rate-limit/rate-limit.module';
+import { AffinityModule } from '../affinity/affinity.module';
 
 @Module({
   imports: [
     PrismaModule,
     RedisModule,
     RateLimitModule,
+    AffinityModule,
   ],
   providers: [SwipesService],
   controllers: [SwipesController],
@@ -1,9 +1,13 @@
 import { Injectable, Logger, BadRequestException, ConflictException } from '@nestjs/common';
 import { PrismaService } from '../common/prisma/prisma.service';
 import { RedisService } from '../common/redis/redis.service';
-import { SwipeRequestDto, SwipeResponseDto } from '../common/dto/market.dto';
+import { AffinityService } from '../affinity/affinity.service';
+import { SwipeRequestDto, SwipeResponseDto, MarketOutcomeOption } from '../common/dto/market.dto';
 import * as crypto from 'crypto';
 
+const SWIPED_SET_TTL = 7 * 24 * 60 * 60; // 7 days, rebuilt from the database on miss
+const SWIPED_SET_CLOCK_SKEW_MS = 60 * 1000; // swipe createdAt comes from the database clock
+
 @Injectable()
 export class SwipesService {
   private readonly logger = new Logger(SwipesService.name);
@@ -11,6 +15,7 @@ export class SwipesService {
   constructor(
     private prisma: PrismaService,
     private redis: RedisService,
+    private affinityService: AffinityService,
   ) {}
 
   /**
@@ -22,9 +27,10 @@ export class SwipesService {
   ): Promise<SwipeResponseDto> {
     const marketId = request.marketId;
     const direction = request.direction;
+    const outcomeId = request.outcomeId;
     const swipeToken = request.swipeToken;
 
-    this.logger.log(`Recording swipe: user=${userId}, market=${marketId}, direction=${direction}`);
+    this.logger.log(`Recording swipe: user=${userId}, market=${marketId}, direction=${direction}${outcomeId ? `, outcome=${outcomeId}` : ''}`);
 
     try {
       // Check if market exists
@@ -41,6 +47,12 @@ export class SwipesService {
         throw new BadRequestException('Market has ended');
       }
 
+      // Categorical markets are swiped on one outcome: right backs it, left fades it
+      const swipedOutcome = this.resolveSwipedOutcome(
+        market.outcomes as unknown as MarketOutcomeOption[] | null,
+        outcomeId,
+      );
+
       // Check for existing swipe (idempotency)
       const existingSwipe = await this.prisma.swipe.findUnique({
         where: {
@@ -52,6 +64,8 @@ export class SwipesService {
       });
 
       if (existingSwipe) {
+        await this.markSwiped(userId, marketId);
+
         // Return existing swipe data
         const stats = await this.getUserStats(userId);
         return {
@@ -84,6 +98,8 @@ export class SwipesService {
             userId,
             marketId,
             direction,
+            outcomeId: swipedOutcome?.id,
+            yesPriceAtSwipe: swipedOutcome?.price ?? market.yesPrice, // Snapshot for calibration scoring
           },
         });
 
@@ -95,6 +111,8 @@ export class SwipesService {
 
       // Update Redis cache for real-time updates
       await this.updateStreakCache(userId, result.stats.currentStreak);
+      await this.markSwiped(userId, marketId);
+      await this.affinityService.recordSwipe(userId, market);
 
       // Calculate XP gained
       const xpGained = this.calculateXPGain(direction, result.stats.currentStreak);
@@ -114,6 +132,32 @@ export class SwipesService {
     }
   }
 
+  /**
+   * Find the outcome a swipe is on. Categorical markets need one; yes/no markets take none
+   */
+  private resolveSwipedOutcome(
+    outcomes: MarketOutcomeOption[] | null,
+    outcomeId?: string,
+  ): MarketOutcomeOption | undefined {
+    if (!outcomes?.length) {
+      if (outcomeId) {
+        throw new BadRequestException('Market has no outcomes to choose from');
+      }
+      return undefined;
+    }
+
+    if (!outcomeId) {
+      throw new BadRequestException('Outcome is required for categorical markets');
+    }
+
+    const outcome = outcomes.find(o => o.id === outcomeId);
+    if (!outcome) {
+      throw new BadRequestException('Outcome not found');
+    }
+
+    return outcome;
+  }
+
   /**
    * Get user's swipe history with cursor-based pagination
    */
@@ -125,6 +169,7 @@ export class SwipesService {
       id: string;
       marketId: string;
       direction: 'LEFT' | 'RIGHT';
+      outcomeId?: string;
       createdAt: string;
       market: {
         id: string;
@@ -204,6 +249,7 @@ export class SwipesService {
           id: swipe.id,
           marketId: swipe.marketId,
           direction: swipe.direction,
+          outcomeId: swipe.outcomeId ?? undefined,
           createdAt: swipe.createdAt.toISOString(),
           market: {
             id: swipe.market.id,
@@ -474,4 +520,68 @@ export class SwipesService {
       this.logger.warn(`Failed to update streak cache for user ${userId}:`, error);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Get IDs of active markets a user has swiped on (cached as a Redis set).
+   * Ended markets never reach the feed, so they're left out to keep the set small
+   */
+  async getSwipedMarketIds(userId: string): Promise<string[]> {
+    const key = `user:${userId}:swiped`;
+
+    try {
+      if (await this.redis.exists(key)) {
+        return await this.redis.smembers(key);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to read swiped set for user ${userId}:`, error);
+    }
+
+    const startedAt = new Date();
+    const swipes = await this.prisma.swipe.findMany({
+      where: { userId, market: { endDate: { gt: startedAt } } },
+      select: { marketId: true },
+    });
+    const marketIds = swipes.map(swipe => swipe.marketId);
+
+    if (marketIds.length > 0) {
+      try {
+        await this.redis.sadd(key, ...marketIds);
+        await this.redis.expire(key, SWIPED_SET_TTL);
+
+        // Swipes committed while the set was missing skipped it in markSwiped;
+        // now that it exists later ones add themselves, so only fill that gap
+        const late = await this.prisma.swipe.findMany({
+          where: { userId, createdAt: { gte: new Date(startedAt.getTime() - SWIPED_SET_CLOCK_SKEW_MS) } },
+          select: { marketId: true },
+        });
+        const missed = late.map(swipe => swipe.marketId).filter(id => !marketIds.includes(id));
+        if (missed.length > 0) {
+          await this.redis.sadd(key, ...missed);
+          marketIds.push(...missed);
+        }
+      } catch (error) {
+        this.logger.warn(`Failed to cache swiped set for user ${userId}:`, error);
+      }
+    }
+
+    return marketIds;
+  }
+
+  /**
+   * Add a market to the user's swiped set if it's cached
+   */
+  private async markSwiped(userId: string, marketId: string): Promise<void> {
+    const key = `user:${userId}:swiped`;
+
+    try {
+      // A missing set is rebuilt from the database on the next read, so only
+      // extend a warm one - creating it here would leave it incomplete
+      if (await this.redis.exists(key)) {
+        await this.redis.sadd(key, marketId);
+        await this.redis.expire(key, SWIPED_SET_TTL);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to update swiped set for user ${userId}:`, error);
+    }
+  }
+}
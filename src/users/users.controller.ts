@@ -116,7 +116,7 @@ export class UsersController {
   @ApiResponse({ status: 200, description: 'Leaderboard retrieved successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async getGlobalLeaderboard(
-    @Query('type') type: 'xp' | 'streak' | 'accuracy' = 'xp',
+    @Query('type') type: 'xp' | 'streak' | 'accuracy' | 'edge' = 'xp',
     @Query('limit') limit: number = 100,
   ) {
     const leaderboard = await this.usersService.getLeaderboard(type, limit);
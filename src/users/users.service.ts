@@ -1,4 +1,5 @@
 import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../common/prisma/prisma.service';
 import { RedisService } from '../common/redis/redis.service';
 import { UserUpdateDto, UserHistoryRequestDto } from '../common/schemas/user.schemas';
@@ -6,11 +7,16 @@ import { UserUpdateDto, UserHistoryRequestDto } from '../common/schemas/user.sch
 @Injectable()
 export class UsersService {
   private readonly logger = new Logger(UsersService.name);
+  // Resolved predictions needed before a user is ranked on accuracy
+  private readonly minAccuracyPredictions: number;
 
   constructor(
     private prisma: PrismaService,
     private redis: RedisService,
-  ) {}
+    private configService: ConfigService,
+  ) {
+    this.minAccuracyPredictions = Number(this.configService.get('ACCURACY_MIN_PREDICTIONS', 10));
+  }
 
   /**
    * Get user profile by ID
@@ -104,6 +110,11 @@ export class UsersService {
       streak,
       bestStreak: stats.bestStreak,
       accuracy: stats.accuracy,
+      resolvedPredictions: stats.resolvedPredictions,
+      accuracyRanked: stats.resolvedPredictions >= this.minAccuracyPredictions,
+      brierScore: stats.brierScore,
+      marketBrierScore: stats.marketBrierScore,
+      edge: stats.edge,
       lastActiveAt: new Date(), // Use current time as last active (computed field)
     };
   }
@@ -128,6 +139,7 @@ export class UsersService {
             question: true,
             source: true,
             outcome: true,
+            winningOutcome: true,
           },
         },
       },
@@ -143,12 +155,14 @@ export class UsersService {
         id: swipe.id,
         marketId: swipe.marketId,
         direction: swipe.direction,
+        outcomeId: swipe.outcomeId ?? undefined,
         createdAt: swipe.createdAt.toISOString(),
         market: {
           id: swipe.market.id,
           question: swipe.market.question,
           source: swipe.market.source,
           outcome: swipe.market.outcome,
+          winningOutcome: swipe.market.winningOutcome ?? undefined,
         },
       })),
       nextCursor: hasMore ? resultSwipes[resultSwipes.length - 1].id : undefined,
@@ -162,7 +176,7 @@ export class UsersService {
   async getUserLeaderboardPosition(userId: string): Promise<{
     xpRank: number;
     streakRank: number;
-    accuracyRank: number;
+    accuracyRank: number | null; // null until the user has enough resolved predictions
     totalUsers: number;
   }> {
     try {
@@ -182,14 +196,19 @@ export class UsersService {
           where: { bestStreak: { gt: userStats.bestStreak } },
         }),
         this.prisma.userStats.count({
-          where: { accuracy: { gt: userStats.accuracy } },
+          where: {
+            accuracy: { gt: userStats.accuracy },
+            resolvedPredictions: { gte: this.minAccuracyPredictions },
+          },
         }),
         this.prisma.userStats.count(),
       ]);
 
       const xpRank = xpCount + 1;
       const streakRank = streakCount + 1;
-      const accuracyRank = accuracyCount + 1;
+      const accuracyRank = userStats.resolvedPredictions >= this.minAccuracyPredictions
+        ? accuracyCount + 1
+        : null;
 
       return {
         xpRank,
@@ -206,14 +225,22 @@ export class UsersService {
   /**
    * Get leaderboard
    */
-  async getLeaderboard(type: 'xp' | 'streak' | 'accuracy' = 'xp', limit: number = 100) {
+  async getLeaderboard(type: 'xp' | 'streak' | 'accuracy' | 'edge' = 'xp', limit: number = 100) {
     const orderBy = {
       xp: { xp: 'desc' as const },
       streak: { bestStreak: 'desc' as const },
       accuracy: { accuracy: 'desc' as const },
+      edge: { edge: 'desc' as const },
+    }[type];
+
+    // Skill boards only rank users with enough resolved predictions
+    const where = {
+      accuracy: { resolvedPredictions: { gte: this.minAccuracyPredictions } },
+      edge: { calibratedPredictions: { gte: this.minAccuracyPredictions } },
     }[type];
 
     const stats = await this.prisma.userStats.findMany({
+      where,
       orderBy,
       take: limit,
       include: {
@@ -236,6 +263,9 @@ export class UsersService {
       streak: stat.currentStreak,
       bestStreak: stat.bestStreak,
       accuracy: stat.accuracy,
+      resolvedPredictions: stat.resolvedPredictions,
+      brierScore: stat.brierScore,
+      edge: stat.edge,
     }));
   }
 
@@ -16,12 +16,19 @@ beforeAll(async () => {
 
 beforeEach(async () => {
   // Clean database before each test
+  await prisma.payout.deleteMany();
   await prisma.swipe.deleteMany();
   await prisma.userStats.deleteMany();
   await prisma.user.deleteMany();
+  await prisma.marketDivergence.deleteMany();
+  await prisma.marketMatch.deleteMany();
+  await prisma.marketPriceSnapshot.deleteMany();
   await prisma.marketItem.deleteMany();
   await prisma.featureFlag.deleteMany();
   await prisma.connectorHealth.deleteMany();
+  await prisma.quarantinedMarket.deleteMany();
+  await prisma.ingestionRun.deleteMany();
+  await prisma.ingestionWatermark.deleteMany();
   await prisma.idempotencyKey.deleteMany();
 });
 
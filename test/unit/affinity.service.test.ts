@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AffinityService, AffinityProfile } from '../../src/affinity/affinity.service';
+
+const mockConfig = {
+  get: vi.fn((key: string, defaultValue?: any) => ({
+    FEED_PERSONALIZATION_WEIGHT: 1,
+    FEED_EXPLORATION_SHARE: 0.25,
+  } as Record<string, any>)[key] ?? defaultValue),
+} as any;
+
+const candidate = (id: string, tags: string[], source = 'POLYMARKET') => ({
+  id,
+  tags,
+  source,
+  confidence: 0.5,
+  trendScore: 0.5,
+});
+
+describe('AffinityService', () => {
+  let affinityService: AffinityService;
+  const profile: AffinityProfile = {
+    tags: { crypto: 2, politics: 1 },
+    sources: { POLYMARKET: 3 },
+    updatedAt: Date.now(),
+  };
+
+  beforeEach(() => {
+    affinityService = new AffinityService({} as any, {} as any, mockConfig);
+  });
+
+  describe('scoreMarket', () => {
+    it('should weight tags against the strongest interest', () => {
+      expect(affinityService.scoreMarket(profile, candidate('a', ['crypto']))).toBeCloseTo(1);
+      expect(affinityService.scoreMarket(profile, candidate('b', ['politics'], 'KALSHI'))).toBeCloseTo(0.35);
+      expect(affinityService.scoreMarket(profile, candidate('c', ['sports'], 'KALSHI'))).toBe(0);
+    });
+  });
+
+  describe('orderForUser', () => {
+    it('should lead with affine markets and keep exploration picks at their rank', () => {
+      const candidates = [
+        candidate('sports1', ['sports'], 'KALSHI'),
+        candidate('politics1', ['politics']),
+        candidate('weather1', ['weather'], 'KALSHI'),
+        candidate('crypto1', ['crypto']),
+        candidate('crypto2', ['crypto']),
+        candidate('sports2', ['sports'], 'KALSHI'),
+      ];
+
+      const ordered = affinityService.orderForUser(profile, candidates);
+
+      expect(ordered.map(m => m.id)).toEqual(['sports1', 'crypto1', 'weather1', 'crypto2', 'politics1', 'sports2']);
+    });
+
+    it('should keep rank order without a profile', () => {
+      const candidates = [candidate('a', []), candidate('b', []), candidate('c', [])];
+
+      expect(affinityService.orderForUser(null, candidates).map(m => m.id)).toEqual(['a', 'b', 'c']);
+    });
+  });
+});
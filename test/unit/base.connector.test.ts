@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AxiosError } from 'axios';
+import { BaseConnector } from '../../src/connectors/base.connector';
+import { ConnectorConfig } from '../../src/connectors/types';
+
+class TestConnector extends BaseConnector {
+  readonly name = 'mock' as const;
+  readonly config: ConnectorConfig = {
+    apiUrl: 'https://vendor.test',
+    rateLimit: { requestsPerMinute: 60, burstLimit: 5 },
+    retry: { maxRetries: 1, backoffMs: 1000 },
+    pagination: { pageSize: 10, maxPages: 3 },
+    timeout: 1000,
+  };
+
+  constructor(configService: any, redis: any) {
+    super(configService, redis);
+    this.initializeHttpClient();
+  }
+
+  get client() {
+    return this.httpClient;
+  }
+}
+
+const mockConfig = {
+  get: vi.fn((_key: string, defaultValue?: any) => defaultValue),
+} as any;
+
+const mockRedis = {
+  get: vi.fn(),
+  set: vi.fn(),
+  del: vi.fn(),
+  takeToken: vi.fn(),
+} as any;
+
+const ok = (config: any) => ({ data: { ok: true }, status: 200, statusText: 'OK', headers: {}, config });
+
+const rateLimited = (config: any, retryAfter: string) =>
+  new AxiosError('Too Many Requests', 'ERR_BAD_RESPONSE', config, null, {
+    data: {},
+    status: 429,
+    statusText: 'Too Many Requests',
+    headers: { 'retry-after': retryAfter },
+    config,
+  } as any);
+
+describe('BaseConnector rate limiting', () => {
+  let connector: TestConnector;
+  let adapter: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    mockRedis.get.mockResolvedValue(null);
+    mockRedis.takeToken.mockResolvedValue(0);
+    connector = new TestConnector(mockConfig, mockRedis);
+    adapter = vi.fn(async (config: any) => ok(config));
+    connector.client.defaults.adapter = adapter as any;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should draw from the shared bucket sized by the rate limit config', async () => {
+    await connector.client.get('/markets');
+
+    expect(mockRedis.takeToken).toHaveBeenCalledWith('connector:mock:bucket', 5, 1);
+    expect((await connector.getMetrics()).throttledRequests).toBe(0);
+  });
+
+  it('should wait for a token when the bucket is empty', async () => {
+    mockRedis.takeToken.mockResolvedValueOnce(750).mockResolvedValueOnce(0);
+
+    const request = connector.client.get('/markets');
+    await vi.advanceTimersByTimeAsync(750);
+    await request;
+
+    const metrics = await connector.getMetrics();
+    expect(adapter).toHaveBeenCalledTimes(1);
+    expect(metrics.throttledRequests).toBe(1);
+    expect(metrics.throttledMs).toBe(750);
+  });
+
+  it('should honour Retry-After and pause other instances', async () => {
+    adapter
+      .mockImplementationOnce(async (config: any) => { throw rateLimited(config, '2'); })
+      .mockImplementationOnce(async (config: any) => ok(config));
+
+    const request = connector.client.get('/markets');
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(adapter).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await request;
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+    expect(mockRedis.set).toHaveBeenCalledWith('connector:mock:retry_after', expect.any(String), 2);
+    expect((await connector.getMetrics()).rateLimitedResponses).toBe(1);
+  });
+
+  it('should hold requests while another instance is paused', async () => {
+    mockRedis.get.mockResolvedValueOnce(String(Date.now() + 500)).mockResolvedValue(null);
+
+    const request = connector.client.get('/markets');
+    await vi.advanceTimersByTimeAsync(500);
+    await request;
+
+    expect(mockRedis.takeToken).toHaveBeenCalledTimes(1);
+    expect((await connector.getMetrics()).throttledMs).toBe(500);
+  });
+
+  it('should send requests unpaced when Redis is unavailable', async () => {
+    mockRedis.takeToken.mockRejectedValue(new Error('Connection refused'));
+
+    await connector.client.get('/markets');
+
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+});
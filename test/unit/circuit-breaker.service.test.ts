@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CircuitBreakerService } from '../../src/connectors/circuit-breaker.service';
+
+const mockPrisma = {
+  connectorHealth: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    updateMany: vi.fn(),
+    upsert: vi.fn(),
+  },
+} as any;
+
+const mockConfig = {
+  get: vi.fn((_key: string, defaultValue: any) => defaultValue),
+} as any;
+
+const healthRecord = (extra: any = {}) => ({
+  id: 'h1',
+  connector: 'kalshi',
+  status: 'healthy',
+  lastSuccess: null,
+  lastError: null,
+  errorCount: 0,
+  recentRuns: [],
+  breakerState: 'CLOSED',
+  forcedOpen: false,
+  openedAt: null,
+  nextProbeAt: null,
+  updatedAt: new Date(),
+  ...extra,
+});
+
+const savedData = () => mockPrisma.connectorHealth.upsert.mock.calls[0][0].update;
+
+describe('CircuitBreakerService', () => {
+  let circuitBreaker: CircuitBreakerService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.connectorHealth.upsert.mockImplementation(({ update }: any) => healthRecord(update));
+    circuitBreaker = new CircuitBreakerService(mockPrisma, mockConfig);
+  });
+
+  describe('allowRequest', () => {
+    it('should let requests through a closed breaker', async () => {
+      mockPrisma.connectorHealth.findUnique.mockResolvedValue(healthRecord());
+
+      expect(await circuitBreaker.allowRequest('kalshi')).toBe(true);
+      expect(mockPrisma.connectorHealth.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should skip an open breaker until its cooldown is over', async () => {
+      mockPrisma.connectorHealth.findUnique.mockResolvedValue(
+        healthRecord({ breakerState: 'OPEN', nextProbeAt: new Date(Date.now() + 60000) }),
+      );
+
+      expect(await circuitBreaker.allowRequest('kalshi')).toBe(false);
+    });
+
+    it('should let one probe through once the cooldown is over', async () => {
+      mockPrisma.connectorHealth.findUnique.mockResolvedValue(
+        healthRecord({ breakerState: 'OPEN', nextProbeAt: new Date(Date.now() - 1000) }),
+      );
+      mockPrisma.connectorHealth.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      expect(await circuitBreaker.allowRequest('kalshi')).toBe(true);
+      expect(await circuitBreaker.allowRequest('kalshi')).toBe(false);
+      expect(mockPrisma.connectorHealth.updateMany.mock.calls[0][0].data.breakerState).toBe('HALF_OPEN');
+    });
+
+    it('should never probe a breaker forced open', async () => {
+      mockPrisma.connectorHealth.findUnique.mockResolvedValue(healthRecord({ breakerState: 'OPEN', forcedOpen: true }));
+
+      expect(await circuitBreaker.allowRequest('kalshi')).toBe(false);
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should keep the breaker closed below the failure threshold', async () => {
+      mockPrisma.connectorHealth.findUnique.mockResolvedValue(healthRecord({ errorCount: 1, recentRuns: [true, true] }));
+
+      await circuitBreaker.recordFailure('kalshi', 'Server error');
+
+      expect(savedData()).toMatchObject({ breakerState: 'CLOSED', errorCount: 2, status: 'healthy' });
+    });
+
+    it('should open the breaker after consecutive failures', async () => {
+      mockPrisma.connectorHealth.findUnique.mockResolvedValue(healthRecord({ errorCount: 2, recentRuns: [false, false] }));
+
+      await circuitBreaker.recordFailure('kalshi', 'Server error');
+
+      expect(savedData()).toMatchObject({ breakerState: 'OPEN', status: 'down', errorCount: 3 });
+      expect(savedData().nextProbeAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should re-open the breaker when a probe fails', async () => {
+      mockPrisma.connectorHealth.findUnique.mockResolvedValue(
+        healthRecord({ breakerState: 'HALF_OPEN', errorCount: 0, openedAt: new Date(0) }),
+      );
+
+      await circuitBreaker.recordFailure('kalshi', 'Network error');
+
+      expect(savedData()).toMatchObject({ breakerState: 'OPEN' });
+    });
+  });
+
+  describe('recordSuccess', () => {
+    it('should close a half-open breaker after a successful probe', async () => {
+      mockPrisma.connectorHealth.findUnique.mockResolvedValue(
+        healthRecord({ breakerState: 'HALF_OPEN', errorCount: 3, recentRuns: [false, false, false] }),
+      );
+
+      await circuitBreaker.recordSuccess('kalshi');
+
+      expect(savedData()).toMatchObject({ breakerState: 'CLOSED', errorCount: 0, status: 'degraded', openedAt: null });
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should degrade on the recent error rate rather than a single failure', () => {
+      expect(circuitBreaker.getStatus('CLOSED', [false, true, true, true])).toBe('healthy');
+      expect(circuitBreaker.getStatus('CLOSED', [false, true, false, true, true])).toBe('degraded');
+      expect(circuitBreaker.getStatus('OPEN', [true])).toBe('down');
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ConnectorsService } from '../../src/connectors/connectors.service';
+import { MarketConnector, getRegisteredConnectors } from '../../src/connectors/connector.registry';
+
+@MarketConnector()
+class LiveConnector {
+  readonly name = 'polymarket';
+}
+
+@MarketConnector({ capabilities: { multiOutcome: true } })
+class CategoricalConnector {
+  readonly name = 'manifold';
+}
+
+@MarketConnector({ environments: ['development', 'test'] })
+class SandboxConnector {
+  readonly name = 'mock';
+}
+
+const mockPrisma = {
+  featureFlag: {
+    findMany: vi.fn(),
+  },
+  marketItem: {
+    findMany: vi.fn(),
+    createMany: vi.fn(),
+  },
+  $executeRaw: vi.fn(),
+  marketPriceSnapshot: {
+    createMany: vi.fn(),
+  },
+  executeTransaction: vi.fn((fn: any) => fn(mockPrisma)),
+} as any;
+
+const config: Record<string, string | undefined> = {};
+const mockConfig = {
+  get: vi.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue),
+} as any;
+
+describe('ConnectorsService', () => {
+  let connectorsService: ConnectorsService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.keys(config).forEach(key => delete config[key]);
+    config.NODE_ENV = 'production';
+    mockPrisma.featureFlag.findMany.mockResolvedValue([]);
+    connectorsService = new ConnectorsService(mockPrisma, mockConfig, [
+      new LiveConnector(),
+      new CategoricalConnector(),
+      new SandboxConnector(),
+    ] as any);
+  });
+
+  it('should register decorated connectors', () => {
+    expect(getRegisteredConnectors()).toEqual(
+      expect.arrayContaining([LiveConnector, CategoricalConnector, SandboxConnector]),
+    );
+  });
+
+  it('should skip connectors not meant for the current environment', async () => {
+    const enabled = await connectorsService.getEnabledConnectors();
+
+    expect(enabled.map(c => c.name)).toEqual(['polymarket', 'manifold']);
+  });
+
+  it('should limit connectors to the CONNECTORS_ENABLED list', async () => {
+    config.CONNECTORS_ENABLED = 'manifold, kalshi';
+
+    const enabled = await connectorsService.getEnabledConnectors();
+
+    expect(enabled.map(c => c.name)).toEqual(['manifold']);
+  });
+
+  it('should let feature flags override the configured list', async () => {
+    config.CONNECTORS_ENABLED = 'manifold';
+    mockPrisma.featureFlag.findMany.mockResolvedValue([
+      { key: 'connector:polymarket', enabled: true },
+      { key: 'connector:manifold', enabled: false },
+      { key: 'connector:mock', enabled: true },
+    ]);
+
+    const enabled = await connectorsService.getEnabledConnectors();
+
+    expect(enabled.map(c => c.name)).toEqual(['polymarket']);
+  });
+
+  it('should report capabilities merged with defaults', async () => {
+    const registry = await connectorsService.getConnectorRegistry();
+
+    expect(registry.find(c => c.name === 'manifold')).toEqual({
+      name: 'manifold',
+      enabled: true,
+      capabilities: { outcomes: true, streaming: false, multiOutcome: true },
+    });
+    expect(connectorsService.getCapabilities('polymarket')?.multiOutcome).toBe(false);
+  });
+});
+
+describe('ConnectorsService storage', () => {
+  const market = (externalId: string, extra: any = {}) => ({
+    source: 'polymarket',
+    externalId,
+    question: `Question ${externalId}?`,
+    yesPrice: 0.6,
+    noPrice: 0.4,
+    volume: 1000,
+    liquidity: 500,
+    endDate: '2030-01-01T00:00:00.000Z',
+    tags: ['politics'],
+    exchanges: [],
+    ...extra,
+  });
+
+  const storedRow = (externalId: string, extra: any = {}) => ({
+    id: `row-${externalId}`,
+    externalId,
+    question: `Question ${externalId}?`,
+    description: null,
+    yesPrice: 0.6,
+    noPrice: 0.4,
+    volume24h: 1000,
+    liquidity: 500,
+    lastChange24h: 0,
+    endDate: new Date('2030-01-01T00:00:00.000Z'),
+    tags: ['politics'],
+    outcomes: null,
+    ...extra,
+  });
+
+  let connectorsService: ConnectorsService;
+  let incoming: any[];
+  let stored: any[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.keys(config).forEach(key => delete config[key]);
+    config.NODE_ENV = 'production';
+    mockPrisma.featureFlag.findMany.mockResolvedValue([]);
+    incoming = [
+      market('new'),
+      market('moved', { yesPrice: 0.7, noPrice: 0.3 }),
+      market('renamed', { question: 'Renamed?' }),
+      market('same'),
+    ];
+    // Stored rows for a batch lookup; the id lookup after createMany finds the new market
+    stored = [storedRow('moved'), storedRow('renamed'), storedRow('same')];
+    mockPrisma.marketItem.findMany.mockImplementation(async ({ where, select }: any) =>
+      select
+        ? where.externalId.in.filter((id: string) => id === 'new').map((id: string) => ({ id: `row-${id}`, externalId: id }))
+        : stored.filter(row => where.externalId.in.includes(row.externalId)),
+    );
+    mockPrisma.$executeRaw.mockResolvedValue(1);
+
+    const connector = new LiveConnector() as any;
+    connector.fetchMarkets = vi.fn().mockResolvedValue({ markets: incoming, rejected: [] });
+    connector.normalize = (raw: any) => raw;
+
+    connectorsService = new ConnectorsService(
+      mockPrisma,
+      mockConfig,
+      [connector],
+      { allowRequest: vi.fn().mockResolvedValue(true), recordSuccess: vi.fn() } as any,
+      { quarantine: vi.fn().mockResolvedValue(0) } as any,
+      {
+        getSince: vi.fn().mockResolvedValue(new Date()),
+        start: vi.fn().mockResolvedValue({ id: 'run1' }),
+        succeed: vi.fn(),
+        pruneRuns: vi.fn(),
+      } as any,
+    );
+  });
+
+  it('should diff a batch against stored rows and write only what changed', async () => {
+    const results = await connectorsService.fetchAndStoreMarkets();
+
+    expect(mockPrisma.marketItem.findMany).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.marketItem.createMany.mock.calls[0][0].data.map((m: any) => m.externalId)).toEqual(['new']);
+    expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.$executeRaw.mock.calls[0][2].values).toEqual(
+      expect.arrayContaining(['row-moved', 'row-renamed']),
+    );
+    expect(results).toMatchObject({ total: 4, new: 1, priceChanged: 1, metadataChanged: 1, unchanged: 1 });
+    expect(results.changes.priceChanged).toEqual([expect.objectContaining({ id: 'row-moved', yesPrice: 0.7 })]);
+  });
+
+  it('should only snapshot new markets and price moves', async () => {
+    await connectorsService.fetchAndStoreMarkets();
+
+    const snapshots = mockPrisma.marketPriceSnapshot.createMany.mock.calls[0][0].data;
+    expect(snapshots.map((s: any) => s.marketId)).toEqual(['row-new', 'row-moved']);
+  });
+
+  it('should retry a failed batch market by market and only lose the bad row', async () => {
+    mockPrisma.$executeRaw.mockImplementation(async (_sql: any, _now: any, rows: any) =>
+      rows.values.includes('row-moved') ? Promise.reject(new Error('value out of range')) : 1,
+    );
+
+    const results = await connectorsService.fetchAndStoreMarkets();
+
+    expect(results.errors).toEqual(['polymarket:moved - value out of range']);
+    expect(results).toMatchObject({ new: 1, priceChanged: 0, metadataChanged: 1, unchanged: 1 });
+  });
+
+  it('should keep the other venues on a merged card when its price moves', async () => {
+    stored[0].exchanges = [
+      { name: 'Polymarket', url: 'https://polymarket.com/old' },
+      { name: 'Kalshi', url: 'https://kalshi.com/k', oddsYes: 0.55, oddsNo: 0.45 },
+    ];
+    const own = { name: 'Polymarket', url: 'https://polymarket.com/moved', oddsYes: 0.7, oddsNo: 0.3 };
+    incoming[1].exchanges = [own];
+
+    await connectorsService.fetchAndStoreMarkets();
+
+    expect(mockPrisma.$executeRaw.mock.calls[0][2].values).toContain(
+      JSON.stringify([own, stored[0].exchanges[1]]),
+    );
+  });
+
+  it('should not count a description the vendor left out as a change', async () => {
+    stored[2].description = 'Stored description';
+
+    const results = await connectorsService.fetchAndStoreMarkets();
+
+    expect(results).toMatchObject({ metadataChanged: 1, unchanged: 1 });
+  });
+});
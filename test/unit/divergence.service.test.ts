@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DivergenceService } from '../../src/exchanges/divergence.service';
+
+const tx = {
+  marketDivergence: {
+    create: vi.fn(),
+  },
+  marketMatch: {
+    update: vi.fn(),
+  },
+};
+
+const mockPrisma = {
+  executeTransaction: vi.fn((fn: any) => fn(tx)),
+  marketMatch: {
+    findMany: vi.fn(),
+  },
+  marketDivergence: {
+    deleteMany: vi.fn(),
+  },
+} as any;
+
+const mockConfig = {
+  get: vi.fn((_key: string, defaultValue: any) => defaultValue),
+} as any;
+
+const mockRealtime = {
+  broadcastDivergence: vi.fn(),
+} as any;
+
+const mockQueue = {
+  add: vi.fn(),
+} as any;
+
+const confirmedMatch = (spread: number | null, kalshiYes: number) => ({
+  id: 'match1',
+  spread,
+  spreadUpdatedAt: null,
+  primary: { id: 'pm1', source: 'POLYMARKET', question: 'Will BTC hit $100k?', yesPrice: 0.6, noPrice: 0.4 },
+  duplicate: { id: 'k1', source: 'KALSHI', question: 'Bitcoin above 100,000?', yesPrice: kalshiYes, noPrice: 1 - kalshiYes },
+});
+
+describe('DivergenceService', () => {
+  let divergenceService: DivergenceService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    divergenceService = new DivergenceService(mockPrisma, mockConfig, mockRealtime, mockQueue);
+  });
+
+  describe('impliedProbability', () => {
+    it('should remove the overround from quoted prices', () => {
+      expect(divergenceService.impliedProbability(0.55, 0.5)).toBeCloseTo(0.5238, 4);
+      expect(divergenceService.impliedProbability(0, 0)).toBe(0);
+    });
+  });
+
+  describe('triggerDivergenceCheck', () => {
+    it('should share one queued check between back-to-back triggers', async () => {
+      await divergenceService.triggerDivergenceCheck();
+      await divergenceService.triggerDivergenceCheck();
+
+      const [first, second] = mockQueue.add.mock.calls;
+      expect(first[2]).toMatchObject({ jobId: 'divergence', removeOnComplete: true });
+      expect(second[2].jobId).toBe(first[2].jobId);
+    });
+  });
+
+  describe('computeDivergences', () => {
+    it('should record a changed spread and alert when it crosses the threshold', async () => {
+      mockPrisma.marketMatch.findMany.mockResolvedValue([confirmedMatch(0.02, 0.5)]);
+
+      const result = await divergenceService.computeDivergences();
+
+      expect(result).toEqual({ pairs: 1, recorded: 1, alerts: 1 });
+      expect(tx.marketDivergence.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ matchId: 'match1', primaryProb: 0.6, duplicateProb: 0.5, spread: 0.1 }),
+      });
+      expect(mockRealtime.broadcastDivergence).toHaveBeenCalledWith(
+        expect.objectContaining({ matchId: 'match1', spread: 0.1 }),
+      );
+    });
+
+    it('should not record an unchanged spread', async () => {
+      mockPrisma.marketMatch.findMany.mockResolvedValue([confirmedMatch(0.1, 0.5)]);
+
+      const result = await divergenceService.computeDivergences();
+
+      expect(result.recorded).toBe(0);
+      expect(tx.marketDivergence.create).not.toHaveBeenCalled();
+    });
+
+    it('should not alert again while the gap stays wide', async () => {
+      mockPrisma.marketMatch.findMany.mockResolvedValue([confirmedMatch(0.1, 0.45)]);
+
+      const result = await divergenceService.computeDivergences();
+
+      expect(result).toEqual({ pairs: 1, recorded: 1, alerts: 0 });
+      expect(mockRealtime.broadcastDivergence).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { FeedService } from '../../src/feed/feed.service';
+
+const mockPrisma = {
+  $queryRaw: vi.fn(),
+  marketItem: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+  },
+} as any;
+
+const mockRedis = {
+  exists: vi.fn(),
+  zrange: vi.fn(),
+  zrangebyscore: vi.fn(),
+  getJson: vi.fn(),
+  setJson: vi.fn(),
+} as any;
+const mockRankingAlgo = {} as any;
+
+const mockRanking = {
+  getRankedSlice: vi.fn(),
+} as any;
+
+const mockSwipes = {
+  getSwipedMarketIds: vi.fn(),
+} as any;
+
+const mockAffinity = {
+  getProfile: vi.fn(),
+  orderForUser: vi.fn((profile: any, candidates: any[]) => candidates),
+} as any;
+
+const market = (id: string) => ({
+  id,
+  source: 'POLYMARKET',
+  question: `Question ${id}?`,
+  yesPrice: 0.5,
+  noPrice: 0.5,
+  endDate: new Date('2030-01-01T00:00:00Z'),
+  confidence: 0.5,
+  trendScore: 0.5,
+  tags: [],
+  insight: null,
+  exchanges: [],
+});
+
+describe('FeedService', () => {
+  let feedService: FeedService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.marketItem.findMany.mockResolvedValue([]);
+    mockRanking.getRankedSlice.mockResolvedValue(null); // cold ranking cache
+    mockSwipes.getSwipedMarketIds.mockResolvedValue([]);
+    mockAffinity.getProfile.mockResolvedValue(null);
+    feedService = new FeedService(mockPrisma, mockRedis, mockRankingAlgo, mockRanking, mockSwipes, mockAffinity);
+  });
+
+  describe('getNextMarkets', () => {
+    it('should exclude markets the user already swiped on', async () => {
+      mockSwipes.getSwipedMarketIds.mockResolvedValue(['market1', 'market2']);
+
+      await feedService.getNextMarkets({ limit: 5 } as any, 'user1');
+
+      expect(mockSwipes.getSwipedMarketIds).toHaveBeenCalledWith('user1');
+      expect(mockPrisma.marketItem.findMany.mock.calls[0][0].where.id).toEqual({
+        notIn: ['market1', 'market2'],
+      });
+    });
+
+    it('should serve the ranked order and pin the snapshot in the cursor', async () => {
+      mockRanking.getRankedSlice
+        .mockResolvedValueOnce({ version: 'v1', marketIds: ['m3', 'm1', 'm2'], restarted: false });
+      mockPrisma.marketItem.findMany.mockResolvedValueOnce(
+        ['m1', 'm2', 'm3'].map(id => market(id)),
+      );
+
+      const result = await feedService.getNextMarkets({ limit: 2 } as any);
+
+      expect(result.items.map(item => item.id)).toEqual(['m3', 'm1']);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextCursor).toBe('ranked:v1:2');
+    });
+
+    it('should only move a personalized cursor past the markets it served', async () => {
+      const profile = { tags: { crypto: 1 }, sources: {}, updatedAt: Date.now() };
+      mockAffinity.getProfile.mockResolvedValue(profile);
+      mockAffinity.orderForUser.mockImplementationOnce((_: any, candidates: any[]) => [...candidates].reverse());
+      mockRanking.getRankedSlice
+        .mockResolvedValueOnce({ version: 'v1', marketIds: ['m1', 'm2', 'm3', 'm4'] });
+      mockPrisma.marketItem.findMany.mockResolvedValueOnce(
+        ['m1', 'm2', 'm3', 'm4'].map(id => market(id)),
+      );
+
+      const result = await feedService.getNextMarkets({ limit: 2 } as any, 'user1');
+
+      expect(mockAffinity.orderForUser).toHaveBeenCalledWith(profile, [
+        expect.objectContaining({ id: 'm1' }),
+        expect.objectContaining({ id: 'm2' }),
+      ]);
+      expect(result.items.map(item => item.id)).toEqual(['m2', 'm1']);
+      expect(result.nextCursor).toBe('ranked:v1:2');
+    });
+
+    it('should resume a ranked cursor from its snapshot version', async () => {
+      mockRanking.getRankedSlice
+        .mockResolvedValueOnce({ version: 'v1', marketIds: ['m2'], restarted: false });
+      mockPrisma.marketItem.findMany.mockResolvedValueOnce([market('m2')]);
+
+      const result = await feedService.getNextMarkets({ limit: 2, cursor: 'ranked:v1:2' } as any);
+
+      expect(mockRanking.getRankedSlice).toHaveBeenCalledWith('default', 2, 6, 'v1');
+      expect(result.items.map(item => item.id)).toEqual(['m2']);
+      expect(result.hasMore).toBe(false);
+    });
+
+    it('should start over when the pinned snapshot expired', async () => {
+      mockRanking.getRankedSlice
+        .mockResolvedValueOnce({ version: 'v2', marketIds: ['m1', 'm2'], restarted: true });
+      mockPrisma.marketItem.findMany.mockResolvedValueOnce([market('m1'), market('m2')]);
+
+      const result = await feedService.getNextMarkets({ limit: 1, cursor: 'ranked:v1:40' } as any);
+
+      expect(result.items.map(item => item.id)).toEqual(['m1']);
+      expect(result.nextCursor).toBe('ranked:v2:1');
+    });
+
+    it('should stop scanning after a few slices and resume from the scan position', async () => {
+      mockSwipes.getSwipedMarketIds.mockResolvedValue(['m1', 'm2', 'm3']);
+      mockRanking.getRankedSlice.mockResolvedValue({ version: 'v1', marketIds: ['m1', 'm2', 'm3'], restarted: false });
+
+      const result = await feedService.getNextMarkets({ limit: 1 } as any, 'user1');
+
+      expect(mockRanking.getRankedSlice).toHaveBeenCalledTimes(5);
+      expect(result.items).toEqual([]);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextCursor).toBe('ranked:v1:15');
+    });
+
+    it('should page a sort mode with a cursor that encodes the sort', async () => {
+      mockPrisma.marketItem.findMany.mockResolvedValueOnce([market('m1'), market('m2'), market('m3')]);
+
+      const first = await feedService.getNextMarkets({ limit: 2, sort: 'closing_soon', maxProbability: 0.6 });
+      const query = mockPrisma.marketItem.findMany.mock.calls[0][0];
+
+      expect(query.orderBy).toEqual([{ endDate: 'asc' }, { id: 'asc' }]);
+      expect(query.where.yesPrice).toEqual({ lte: 0.6 });
+      expect(first.nextCursor).toMatch(/^closing_soon:/);
+
+      await feedService.getNextMarkets({ limit: 2, sort: 'closing_soon', cursor: first.nextCursor });
+
+      expect(mockPrisma.marketItem.findMany.mock.calls[1][0].where.AND[0].OR).toEqual([
+        { endDate: { gt: new Date('2030-01-01T00:00:00Z') } },
+        { endDate: new Date('2030-01-01T00:00:00Z'), id: { gt: 'm2' } },
+      ]);
+      await expect(
+        feedService.getNextMarkets({ limit: 2, sort: 'movers', cursor: first.nextCursor }),
+      ).rejects.toThrow('Cursor does not match the requested sort');
+    });
+
+    it('should not personalize the feed for anonymous users', async () => {
+      await feedService.getNextMarkets({ limit: 5 } as any);
+
+      expect(mockSwipes.getSwipedMarketIds).not.toHaveBeenCalled();
+      expect(mockPrisma.marketItem.findMany.mock.calls[0][0].where.id).toBeUndefined();
+    });
+  });
+
+  describe('searchMarkets', () => {
+    it('should return matches in score order with a score cursor', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([
+        { id: 'm2', score: 0.9 },
+        { id: 'm1', score: 0.4 },
+        { id: 'm3', score: 0.1 },
+      ]);
+      mockPrisma.marketItem.findMany.mockResolvedValue([market('m1'), market('m2')]);
+
+      const result = await feedService.searchMarkets({ q: 'fed rates', limit: 2 });
+
+      expect(result.items.map(item => item.id)).toEqual(['m2', 'm1']);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextCursor).toBe('0.4,m1');
+    });
+
+    it('should reject queries that are too short', async () => {
+      await expect(feedService.searchMarkets({ q: 'f' })).rejects.toThrow('at least 2 characters');
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMovers', () => {
+    it('should serve cached movers in order, dropping closed markets', async () => {
+      mockRedis.exists.mockResolvedValue(1);
+      mockRedis.zrange.mockResolvedValue(['m2', 'm1', 'm3']);
+      mockPrisma.marketItem.findMany.mockResolvedValue([market('m1'), market('m2')]);
+
+      const items = await feedService.getMovers({ window: '1h', limit: 3 });
+
+      expect(mockRedis.zrange).toHaveBeenCalledWith('feed:movers:1h', 0, 2);
+      expect(items.map(item => item.id)).toEqual(['m2', 'm1']);
+    });
+
+    it('should fall back to the database while the carousel is cold', async () => {
+      mockRedis.exists.mockResolvedValue(0);
+      mockPrisma.marketItem.findMany.mockResolvedValue([market('m1')]);
+
+      await feedService.getMovers({});
+
+      expect(mockPrisma.marketItem.findMany.mock.calls[0][0].orderBy).toEqual([{ priceMove24: 'desc' }, { id: 'asc' }]);
+    });
+  });
+
+  describe('getRelatedMarkets', () => {
+    it('should blend tag, text and co-swipe signals, boosted by end date proximity', async () => {
+      const endDate = new Date('2030-01-01T00:00:00Z');
+      mockRedis.getJson.mockResolvedValue(null);
+      mockPrisma.marketItem.findUnique.mockResolvedValue({
+        id: 'm0', question: 'Will the Fed cut rates?', tags: ['fed'], endDate,
+      });
+      mockPrisma.$queryRaw.mockResolvedValue([
+        { id: 'tagged', endDate: new Date('2030-06-01T00:00:00Z'), tagScore: 1, textScore: 0.1, coSwipes: 0 },
+        { id: 'coswiped', endDate, tagScore: 0, textScore: 0.2, coSwipes: 4 },
+        { id: 'tagged-same-day', endDate, tagScore: 1, textScore: 0, coSwipes: 0 },
+      ]);
+      mockPrisma.marketItem.findMany.mockImplementation(({ where }: any) =>
+        Promise.resolve(where.id.in.map((id: string) => market(id))),
+      );
+
+      const items = await feedService.getRelatedMarkets('m0', 10);
+
+      expect(items.map(item => item.id)).toEqual(['tagged-same-day', 'coswiped', 'tagged']);
+
+      // A close end date alone doesn't make a market a candidate, and candidates are capped
+      const sql = mockPrisma.$queryRaw.mock.calls[0][0].join('?');
+      expect(sql).not.toContain('BETWEEN');
+      expect(sql).toContain('LIMIT');
+      expect(mockRedis.setJson).toHaveBeenCalledWith('market:m0:related', expect.any(Array), 600);
+    });
+
+    it('should throw for an unknown market', async () => {
+      mockRedis.getJson.mockResolvedValue(null);
+      mockPrisma.marketItem.findUnique.mockResolvedValue(null);
+
+      await expect(feedService.getRelatedMarkets('missing')).rejects.toThrow('Market not found');
+    });
+  });
+});
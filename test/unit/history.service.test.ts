@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { HistoryService } from '../../src/history/history.service';
+
+const mockPrisma = {
+  $queryRaw: vi.fn(),
+  $executeRaw: vi.fn(),
+  marketItem: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+  },
+  marketPriceSnapshot: {
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+} as any;
+
+const mockRedis = {
+  getJson: vi.fn(),
+  setJson: vi.fn(),
+} as any;
+
+const mockQueue = {
+  add: vi.fn(),
+} as any;
+
+const activeMarket = {
+  id: 'market1',
+  yesPrice: 0.6,
+  volume24h: 3000,
+  priceChange1h: 0,
+  priceChange24: 0,
+  priceChange7d: 0,
+  priceMove24: 0,
+  volumeVelocity: 0,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOW = new Date('2025-11-12T12:00:00Z');
+
+const snapshot = (capturedAt: string, yesPrice: number) => ({
+  yesPrice,
+  noPrice: 1 - yesPrice,
+  volume24h: 1000,
+  capturedAt: new Date(capturedAt),
+});
+
+describe('HistoryService', () => {
+  let historyService: HistoryService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    historyService = new HistoryService(mockPrisma, mockRedis, mockQueue);
+  });
+
+  describe('refreshPriceChanges', () => {
+    it('should derive price changes and volume velocity from snapshots', async () => {
+      mockPrisma.marketItem.findMany.mockResolvedValue([activeMarket]);
+      mockPrisma.$queryRaw
+        .mockResolvedValueOnce([{ marketId: 'market1', yesPrice: 0.58, volume24h: 2800 }]) // 1h ago
+        .mockResolvedValueOnce([{ marketId: 'market1', yesPrice: 0.5, volume24h: 2000 }]) // 24h ago
+        .mockResolvedValueOnce([]); // 7d ago: no history yet
+
+      const result = await historyService.refreshPriceChanges();
+
+      expect(result).toEqual({ processed: 1, updated: 1 });
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+      // id, priceChange1h, priceChange24, priceChange7d, priceMove24, volumeVelocity
+      expect(mockPrisma.$executeRaw.mock.calls[0][1].values).toEqual(['market1', 2, 10, 0, 10, 0.5]);
+    });
+
+    it('should write large refreshes in bounded chunks', async () => {
+      const markets = Array.from({ length: 1200 }, (_, i) => ({ ...activeMarket, id: `market${i}` }));
+      mockPrisma.marketItem.findMany.mockResolvedValue(markets);
+      mockPrisma.$queryRaw.mockResolvedValue(markets.map(m => ({ marketId: m.id, yesPrice: 0.5, volume24h: 2000 })));
+
+      const result = await historyService.refreshPriceChanges();
+
+      expect(result.updated).toBe(1200);
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(3);
+    });
+
+    it('should skip markets whose derived values are unchanged', async () => {
+      mockPrisma.marketItem.findMany.mockResolvedValue([activeMarket]);
+      mockPrisma.$queryRaw.mockResolvedValue([]);
+
+      const result = await historyService.refreshPriceChanges();
+
+      expect(result).toEqual({ processed: 1, updated: 0 });
+      expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMarketHistory', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(NOW);
+      mockRedis.getJson.mockResolvedValue(null);
+      mockPrisma.marketItem.findUnique.mockResolvedValue({ id: 'market1' });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should reject an interval too fine for the range', async () => {
+      await expect(
+        historyService.getMarketHistory('market1', { range: '1y', interval: '5m' }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        historyService.getMarketHistory('market1', { range: '2w' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrisma.marketPriceSnapshot.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should keep the last snapshot in each bucket', async () => {
+      mockPrisma.marketPriceSnapshot.findFirst.mockResolvedValue(null);
+      mockPrisma.marketPriceSnapshot.findMany.mockResolvedValue([
+        snapshot('2025-11-12T09:05:00Z', 0.4),
+        snapshot('2025-11-12T09:55:00Z', 0.45),
+        snapshot('2025-11-12T10:10:00Z', 0.5),
+      ]);
+
+      const result = await historyService.getMarketHistory('market1', { range: '1d', interval: '1h' });
+
+      expect(result.points).toEqual([
+        { t: '2025-11-12T09:00:00.000Z', yesPrice: 0.45, noPrice: 0.55, volume24h: 1000 },
+        { t: '2025-11-12T10:00:00.000Z', yesPrice: 0.5, noPrice: 0.5, volume24h: 1000 },
+      ]);
+      expect(mockRedis.setJson).toHaveBeenCalledWith('market:market1:history:1d:1h', result, 60);
+    });
+
+    it('should carry the last snapshot before the range forward to its start', async () => {
+      mockPrisma.marketPriceSnapshot.findFirst.mockResolvedValue(snapshot('2025-11-10T00:00:00Z', 0.3));
+      mockPrisma.marketPriceSnapshot.findMany.mockResolvedValue([snapshot('2025-11-12T10:10:00Z', 0.5)]);
+
+      const result = await historyService.getMarketHistory('market1', { range: '1d', interval: '1h' });
+
+      const since = new Date(NOW.getTime() - DAY_MS);
+      expect(mockPrisma.marketPriceSnapshot.findFirst.mock.calls[0][0].where).toEqual({
+        marketId: 'market1',
+        capturedAt: { lt: since },
+      });
+      expect(result.points[0]).toEqual({
+        t: since.toISOString(),
+        yesPrice: 0.3,
+        noPrice: 0.7,
+        volume24h: 1000,
+      });
+      expect(result.points).toHaveLength(2);
+    });
+
+    it('should serve cached history without querying', async () => {
+      const cached = { marketId: 'market1', range: '7d', interval: '1h', points: [] };
+      mockRedis.getJson.mockResolvedValue(cached);
+
+      const result = await historyService.getMarketHistory('market1', {});
+
+      expect(result).toBe(cached);
+      expect(mockRedis.getJson).toHaveBeenCalledWith('market:market1:history:7d:1h');
+      expect(mockPrisma.marketItem.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should 404 for an unknown market', async () => {
+      mockPrisma.marketItem.findUnique.mockResolvedValue(null);
+
+      await expect(historyService.getMarketHistory('missing', {})).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('applyRetention', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(NOW);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should downsample hourly then daily and drop snapshots past a year', async () => {
+      mockPrisma.$executeRaw.mockResolvedValueOnce(12).mockResolvedValueOnce(5);
+      mockPrisma.marketPriceSnapshot.deleteMany.mockResolvedValue({ count: 3 });
+
+      const result = await historyService.applyRetention();
+
+      expect(result).toEqual({ hourlyRemoved: 12, dailyRemoved: 5, expiredRemoved: 3 });
+
+      const [hourly, daily] = mockPrisma.$executeRaw.mock.calls;
+      expect(hourly.slice(1)).toEqual([
+        'hour',
+        new Date(NOW.getTime() - 30 * DAY_MS),
+        new Date(NOW.getTime() - 48 * HOUR_MS),
+      ]);
+      expect(daily.slice(1)).toEqual([
+        'day',
+        new Date(NOW.getTime() - 365 * DAY_MS),
+        new Date(NOW.getTime() - 30 * DAY_MS),
+      ]);
+      expect(mockPrisma.marketPriceSnapshot.deleteMany).toHaveBeenCalledWith({
+        where: { capturedAt: { lt: new Date(NOW.getTime() - 365 * DAY_MS) } },
+      });
+    });
+  });
+});
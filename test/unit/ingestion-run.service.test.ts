@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IngestionRunService } from '../../src/connectors/ingestion-run.service';
+
+const tx = {
+  ingestionRun: {
+    update: vi.fn(),
+  },
+  ingestionWatermark: {
+    upsert: vi.fn(),
+  },
+};
+
+const mockPrisma = {
+  executeTransaction: vi.fn((fn: any) => fn(tx)),
+  ingestionRun: {
+    create: vi.fn(),
+    update: vi.fn(),
+    findMany: vi.fn(),
+  },
+  ingestionWatermark: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+  },
+} as any;
+
+const counts = { fetched: 3, created: 1, updated: 1, unchanged: 1, quarantined: 0, errorCount: 0 };
+
+const run = (startedAt: Date) => ({ id: 'run1', connector: 'kalshi', startedAt });
+
+describe('IngestionRunService', () => {
+  let ingestionRuns: IngestionRunService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ingestionRuns = new IngestionRunService(mockPrisma);
+  });
+
+  describe('getSince', () => {
+    it('should look back a day before the first run', async () => {
+      mockPrisma.ingestionWatermark.findUnique.mockResolvedValue(null);
+
+      const since = await ingestionRuns.getSince('kalshi');
+
+      expect(Date.now() - since.getTime()).toBeCloseTo(24 * 60 * 60 * 1000, -3);
+    });
+
+    it('should resume from the watermark after an outage', async () => {
+      const watermark = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
+      mockPrisma.ingestionWatermark.findUnique.mockResolvedValue({ connector: 'kalshi', watermark });
+
+      const since = await ingestionRuns.getSince('kalshi');
+
+      expect(since.getTime()).toBe(watermark.getTime() - 5 * 60 * 1000);
+    });
+  });
+
+  describe('succeed', () => {
+    it('should close the run and move the watermark to its start', async () => {
+      const startedAt = new Date(Date.now() - 2000);
+
+      await ingestionRuns.succeed(run(startedAt) as any, counts);
+
+      expect(tx.ingestionRun.update).toHaveBeenCalledWith({
+        where: { id: 'run1' },
+        data: expect.objectContaining({ status: 'SUCCEEDED', created: 1, unchanged: 1, durationMs: expect.any(Number) }),
+      });
+      expect(tx.ingestionWatermark.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: { watermark: startedAt },
+      }));
+    });
+  });
+
+  describe('fail', () => {
+    it('should leave the watermark alone', async () => {
+      await ingestionRuns.fail(run(new Date()) as any, counts, 'Network error');
+
+      expect(mockPrisma.ingestionRun.update).toHaveBeenCalledWith({
+        where: { id: 'run1' },
+        data: expect.objectContaining({ status: 'FAILED', error: 'Network error' }),
+      });
+      expect(tx.ingestionWatermark.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listRuns', () => {
+    it('should reject unknown connectors', async () => {
+      await expect(ingestionRuns.listRuns({ connector: 'nasdaq' })).rejects.toThrow('Unknown connector');
+    });
+
+    it('should filter runs by connector and status', async () => {
+      mockPrisma.ingestionRun.findMany.mockResolvedValue([]);
+      mockPrisma.ingestionWatermark.findMany.mockResolvedValue([]);
+
+      await ingestionRuns.listRuns({ connector: 'kalshi', status: 'FAILED' });
+
+      expect(mockPrisma.ingestionRun.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { connector: 'kalshi', status: 'FAILED' }, take: 50 }),
+      );
+    });
+  });
+});
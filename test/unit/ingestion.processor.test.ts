@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IngestionProcessor } from '../../src/jobs/processors/ingestion.processor';
+import { AdminService } from '../../src/admin/admin.service';
+
+const mockQueue = {
+  add: vi.fn(),
+} as any;
+
+const mockConnectors = {
+  getEnabledConnectors: vi.fn(),
+  getConnector: vi.fn(),
+  fetchAndStoreMarkets: vi.fn(),
+  refreshMarket: vi.fn(),
+} as any;
+
+const mockRanking = { triggerRankingRebuild: vi.fn() } as any;
+const mockHistory = { refreshPriceChanges: vi.fn() } as any;
+const mockMatching = { syncMergedExchanges: vi.fn(), findMatches: vi.fn() } as any;
+const mockDivergence = { triggerDivergenceCheck: vi.fn() } as any;
+const mockRealtime = { broadcastNewMarket: vi.fn(), broadcastMarketUpdate: vi.fn() } as any;
+
+// Just enough of Redis for the pending-sync flag
+const store = new Map<string, string>();
+const mockRedis = {
+  set: vi.fn(async (key: string, value: string) => { store.set(key, value); return 'OK'; }),
+  del: vi.fn(async (key: string) => Number(store.delete(key))),
+  exists: vi.fn(async (key: string) => Number(store.has(key))),
+} as any;
+
+const change = (id: string) => ({ id, externalId: id, yesPrice: 0.6, noPrice: 0.4, volume: 100 });
+const changeSet = (extra: any = {}) => ({ created: [], priceChanged: [], metadataChanged: [], unchanged: [], ...extra });
+const results = (changes: any) => ({
+  total: 1, new: changes.created.length, priceChanged: changes.priceChanged.length,
+  metadataChanged: changes.metadataChanged.length, unchanged: changes.unchanged.length,
+  quarantined: 0, errors: [], changes,
+});
+const syncCalls = () => mockQueue.add.mock.calls.filter((call: any) => call[0] === 'sync');
+
+describe('IngestionProcessor', () => {
+  let processor: IngestionProcessor;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store.clear();
+    mockQueue.add.mockImplementation(async (_name: string, _data: any, opts: any = {}) => ({ id: opts.jobId ?? 1 }));
+    processor = new IngestionProcessor(
+      mockQueue,
+      mockConnectors,
+      mockRanking,
+      mockHistory,
+      mockMatching,
+      mockDivergence,
+      mockRedis,
+      mockRealtime,
+    );
+  });
+
+  describe('handlePull', () => {
+    it('should fan a pull without a connector out into one job per enabled connector', async () => {
+      mockConnectors.getEnabledConnectors.mockResolvedValue([{ name: 'kalshi' }, { name: 'manifold' }]);
+
+      const result = await processor.handlePull({ data: { force: true } } as any);
+
+      expect(result).toMatchObject({ connectors: ['kalshi', 'manifold'] });
+      expect(mockQueue.add.mock.calls.map((call: any) => [call[1], call[2].jobId])).toEqual([
+        [{ connector: 'kalshi', force: true }, 'pull:kalshi'],
+        [{ connector: 'manifold', force: true }, 'pull:manifold'],
+      ]);
+      expect(mockConnectors.fetchAndStoreMarkets).not.toHaveBeenCalled();
+    });
+
+    it('should only ingest the requested connector', async () => {
+      mockConnectors.fetchAndStoreMarkets.mockResolvedValue(results(changeSet({ unchanged: [change('m1')] })));
+
+      const result = await processor.handlePull({ data: { connector: 'kalshi' } } as any);
+
+      expect(mockConnectors.fetchAndStoreMarkets).toHaveBeenCalledWith('kalshi');
+      expect(result.results).not.toHaveProperty('changes');
+      expect(mockQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should refresh a single market and broadcast its price move', async () => {
+      mockConnectors.refreshMarket.mockResolvedValue(changeSet({ priceChanged: [change('m1')] }));
+
+      const result = await processor.handlePull({ data: { connector: 'polymarket', externalId: '0xabc' } } as any);
+
+      expect(mockConnectors.refreshMarket).toHaveBeenCalledWith('polymarket', '0xabc');
+      expect(result).toMatchObject({ externalId: '0xabc', priceChanged: 1 });
+      expect(mockRealtime.broadcastMarketUpdate).toHaveBeenCalledWith(change('m1'));
+      expect(syncCalls()).toHaveLength(1);
+    });
+
+    it('should queue one shared rebuild instead of running it per connector', async () => {
+      mockConnectors.fetchAndStoreMarkets.mockResolvedValue(results(changeSet({ created: [change('m1')] })));
+
+      await processor.handlePull({ data: { connector: 'kalshi' } } as any);
+      await processor.handlePull({ data: { connector: 'manifold' } } as any);
+
+      expect(syncCalls().map((call: any) => call[2].jobId)).toEqual(['sync', 'sync']);
+      expect(mockMatching.syncMergedExchanges).not.toHaveBeenCalled();
+      expect(mockRanking.triggerRankingRebuild).not.toHaveBeenCalled();
+      expect(mockRealtime.broadcastNewMarket).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('handleSync', () => {
+    it('should rebuild merged cards before prices and rankings', async () => {
+      const order: string[] = [];
+      mockMatching.syncMergedExchanges.mockImplementation(async () => order.push('merged'));
+      mockHistory.refreshPriceChanges.mockImplementation(async () => order.push('prices'));
+      mockRanking.triggerRankingRebuild.mockImplementation(async () => order.push('ranking'));
+
+      await processor.handleSync();
+
+      expect(order).toEqual(['merged', 'prices', 'ranking']);
+    });
+
+    it('should queue another sync for a trigger that came in during the active one', async () => {
+      mockConnectors.fetchAndStoreMarkets.mockResolvedValue(results(changeSet({ priceChanged: [change('m1')] })));
+      await processor.handlePull({ data: { connector: 'kalshi' } } as any);
+
+      // The second pull finishes while the sync is running, so Bull ignores its add
+      mockMatching.syncMergedExchanges.mockImplementationOnce(async () => {
+        await processor.handlePull({ data: { connector: 'manifold' } } as any);
+      });
+      await processor.handleSync();
+      await processor.onCompleted({ name: 'sync' } as any);
+
+      expect(syncCalls()).toHaveLength(3);
+    });
+
+    it('should not queue another sync when nothing came in meanwhile', async () => {
+      mockConnectors.fetchAndStoreMarkets.mockResolvedValue(results(changeSet({ priceChanged: [change('m1')] })));
+      await processor.handlePull({ data: { connector: 'kalshi' } } as any);
+
+      await processor.handleSync();
+      await processor.onCompleted({ name: 'sync' } as any);
+      await processor.onCompleted({ name: 'pull' } as any);
+
+      expect(syncCalls()).toHaveLength(1);
+    });
+  });
+
+  describe('admin pulls', () => {
+    it('should share the fan-out job id so a connector never runs two pulls', async () => {
+      mockConnectors.getConnector.mockReturnValue({ name: 'kalshi' });
+      const adminService = new AdminService(
+        {} as any, {} as any, mockConnectors, {} as any, {} as any, {} as any, {} as any, {} as any,
+        mockQueue, {} as any, {} as any, {} as any, {} as any,
+      );
+
+      await adminService.triggerIngestion('kalshi');
+      await adminService.triggerIngestion('kalshi', false, 'KX-1');
+
+      expect(mockQueue.add.mock.calls[0][2]).toMatchObject({ jobId: 'pull:kalshi', removeOnComplete: true });
+      expect(mockQueue.add.mock.calls[1][2].jobId).toBeUndefined();
+    });
+  });
+});
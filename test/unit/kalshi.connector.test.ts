@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KalshiConnector } from '../../src/connectors/kalshi.connector';
+
+const mockConfig = {
+  get: vi.fn((key: string, defaultValue?: any) => defaultValue),
+} as any;
+
+const mockRedis = {
+  get: vi.fn(),
+  set: vi.fn(),
+  del: vi.fn(),
+} as any;
+
+const vendorMarket = (id: string) => ({
+  id,
+  title: `Question ${id}?`,
+  yes_bid: 0.6,
+  no_bid: 0.4,
+  volume: 1000,
+  open_interest: 500,
+  close_time: '2030-01-01T00:00:00Z',
+  category: 'Politics',
+  tags: ['election'],
+  description: 'Resolves Yes if the incumbent wins',
+});
+
+const marketDetail = (overrides: Record<string, any> = {}) => ({
+  market: {
+    id: 'k1',
+    ticker: 'K1',
+    title: 'Will it rain?',
+    status: 'settled',
+    result: 'yes',
+    settlement_time: '2025-11-02T12:00:00Z',
+    rules_primary: 'NWS report',
+    ...overrides,
+  },
+});
+
+describe('KalshiConnector', () => {
+  let connector: KalshiConnector;
+  let get: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRedis.get.mockResolvedValue(null);
+    connector = new KalshiConnector(mockConfig, mockRedis);
+    get = vi.fn();
+    (connector as any).httpClient = { get };
+  });
+
+  describe('fetchOutcome', () => {
+    it('should resolve a settled market to its result', async () => {
+      get.mockResolvedValue({ data: marketDetail() });
+
+      const outcome = await connector.fetchOutcome('K1');
+
+      expect(get).toHaveBeenCalledWith('/markets/K1');
+      expect(outcome).toEqual({
+        status: 'resolved',
+        outcome: 'YES',
+        resolvedAt: new Date('2025-11-02T12:00:00Z'),
+        source: 'NWS report',
+      });
+    });
+
+    it('should resolve a finalized market', async () => {
+      get.mockResolvedValue({ data: marketDetail({ status: 'finalized', result: 'no' }) });
+
+      const outcome = await connector.fetchOutcome('K1');
+
+      expect(outcome).toMatchObject({ status: 'resolved', outcome: 'NO' });
+    });
+
+    it('should void a market settled as void', async () => {
+      get.mockResolvedValue({ data: marketDetail({ result: 'void' }) });
+
+      const outcome = await connector.fetchOutcome('K1');
+
+      expect(outcome.status).toBe('voided');
+      expect(outcome.outcome).toBeUndefined();
+    });
+
+    it('should stay pending while the result is empty', async () => {
+      get.mockResolvedValue({ data: marketDetail({ result: '' }) });
+
+      expect(await connector.fetchOutcome('K1')).toEqual({ status: 'pending' });
+    });
+
+    it('should stay pending until the market settles', async () => {
+      get.mockResolvedValue({ data: marketDetail({ status: 'closed', result: 'yes' }) });
+
+      expect(await connector.fetchOutcome('K1')).toEqual({ status: 'pending' });
+    });
+  });
+
+  describe('normalize', () => {
+    it('should carry the vendor description through for search', async () => {
+      get.mockResolvedValueOnce({ data: { markets: [vendorMarket('k1')] } });
+
+      const { markets: [raw] } = await connector.fetchMarkets({});
+      const normalized = connector.normalize(raw);
+
+      expect(normalized.description).toBe('Resolves Yes if the incumbent wins');
+      expect(normalized.tags).toEqual(['Politics', 'election']);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ManifoldConnector } from '../../src/connectors/manifold.connector';
+
+const mockConfig = {
+  get: vi.fn((key: string, defaultValue?: any) => defaultValue),
+} as any;
+
+const mockRedis = {
+  get: vi.fn(),
+  set: vi.fn(),
+  del: vi.fn(),
+} as any;
+
+const closeTime = Date.now() + 7 * 24 * 60 * 60 * 1000;
+
+const vendorMarket = (id: string, extra: any = {}) => ({
+  id,
+  question: `Question ${id}?`,
+  slug: `question-${id}`,
+  url: `https://manifold.markets/someone/question-${id}`,
+  outcomeType: 'BINARY',
+  probability: 0.7,
+  closeTime,
+  volume: 5000,
+  volume24Hours: 300,
+  totalLiquidity: 1000,
+  isResolved: false,
+  lastUpdatedTime: Date.now(),
+  ...extra,
+});
+
+describe('ManifoldConnector', () => {
+  let connector: ManifoldConnector;
+  let get: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRedis.get.mockResolvedValue(null);
+    connector = new ManifoldConnector(mockConfig, mockRedis);
+    connector.config.pagination.pageSize = 2;
+    get = vi.fn();
+    (connector as any).httpClient = { get };
+  });
+
+  describe('fetchMarkets', () => {
+    it('should page with the last market id until a short page', async () => {
+      get
+        .mockResolvedValueOnce({ data: [vendorMarket('a'), vendorMarket('b')] })
+        .mockResolvedValueOnce({ data: [vendorMarket('c')] });
+
+      const { markets } = await connector.fetchMarkets({});
+
+      expect(markets.map(m => m.id)).toEqual(['a', 'b', 'c']);
+      expect(get.mock.calls[1][0]).toContain('before=b');
+      expect(markets[0]).toMatchObject({ yesPrice: 0.7, volume: 300, tags: ['play-money'] });
+      expect(markets[0].noPrice).toBeCloseTo(0.3);
+    });
+
+    it('should stop paging once markets are older than since', async () => {
+      const since = new Date(Date.now() - 60 * 60 * 1000);
+      get.mockResolvedValueOnce({
+        data: [vendorMarket('a'), vendorMarket('b', { lastUpdatedTime: since.getTime() - 1 })],
+      });
+
+      const { markets } = await connector.fetchMarkets({ since });
+
+      expect(markets.map(m => m.id)).toEqual(['a']);
+      expect(get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip resolved, closed and unsupported markets', async () => {
+      get.mockResolvedValueOnce({
+        data: [
+          vendorMarket('resolved', { isResolved: true }),
+          vendorMarket('closed', { closeTime: Date.now() - 1000 }),
+          vendorMarket('numeric', { outcomeType: 'PSEUDO_NUMERIC' }),
+        ],
+      });
+
+      expect(await connector.fetchMarkets({})).toEqual({ markets: [], rejected: [] });
+    });
+
+    it('should split a multiple-choice market into one market per open answer', async () => {
+      get
+        .mockResolvedValueOnce({ data: [vendorMarket('mc', { outcomeType: 'MULTIPLE_CHOICE', probability: undefined })] })
+        .mockResolvedValueOnce({
+          data: {
+            ...vendorMarket('mc', { outcomeType: 'MULTIPLE_CHOICE' }),
+            groupSlugs: ['politics'],
+            answers: [
+              { id: 'x', text: 'Alice', probability: 0.2 },
+              { id: 'y', text: 'Bob', probability: 0.5 },
+              { id: 'z', text: 'Carol', probability: 0.3, resolution: 'NO' },
+            ],
+          },
+        });
+
+      const { markets } = await connector.fetchMarkets({});
+
+      expect(get.mock.calls[1][0]).toBe('/v0/market/mc');
+      expect(markets.map(m => m.id)).toEqual(['mc:y', 'mc:x']);
+      expect(markets[0]).toMatchObject({
+        question: 'Question mc? — Bob',
+        yesPrice: 0.5,
+        tags: ['play-money', 'politics'],
+      });
+    });
+  });
+
+  describe('fetchMarket', () => {
+    it('should refresh a single answer of a multiple-choice market', async () => {
+      get.mockResolvedValueOnce({
+        data: {
+          ...vendorMarket('mc', { outcomeType: 'MULTIPLE_CHOICE', probability: undefined }),
+          answers: [
+            { id: 'x', text: 'Alice', probability: 0.2 },
+            { id: 'y', text: 'Bob', probability: 0.5 },
+          ],
+        },
+      });
+
+      const { market } = await connector.fetchMarket('mc:x');
+
+      expect(get).toHaveBeenCalledWith('/v0/market/mc');
+      expect(market).toMatchObject({ id: 'mc:x', question: 'Question mc? — Alice', yesPrice: 0.2 });
+    });
+
+    it('should normalize a binary market the same way the list does', async () => {
+      get.mockResolvedValueOnce({
+        data: vendorMarket('a', { textDescription: 'Detail only', groupSlugs: ['politics'] }),
+      });
+
+      const { market } = await connector.fetchMarket('a');
+
+      expect(market).toMatchObject({ id: 'a', yesPrice: 0.7 });
+      expect(market?.description).toBeUndefined();
+      expect(market?.tags).toEqual(['play-money']);
+    });
+
+    it('should hand back an invalid payload for quarantine', async () => {
+      get.mockResolvedValueOnce({ data: vendorMarket('a', { probability: 7 }) });
+
+      expect(await connector.fetchMarket('a')).toEqual({
+        market: null,
+        rejected: [expect.objectContaining({ externalId: 'a' })],
+      });
+    });
+  });
+
+  describe('fetchOutcome', () => {
+    it('should resolve binary markets', async () => {
+      get.mockResolvedValueOnce({ data: vendorMarket('a', { isResolved: true, resolution: 'NO', resolutionTime: 1 }) });
+
+      expect(await connector.fetchOutcome('a')).toMatchObject({ status: 'resolved', outcome: 'NO' });
+    });
+
+    it('should resolve answer markets against the winning answer', async () => {
+      const resolved = vendorMarket('mc', {
+        outcomeType: 'MULTIPLE_CHOICE',
+        isResolved: true,
+        resolution: 'y',
+        answers: [{ id: 'x', text: 'Alice', probability: 0 }, { id: 'y', text: 'Bob', probability: 1 }],
+      });
+      get.mockResolvedValue({ data: resolved });
+
+      expect(await connector.fetchOutcome('mc:y')).toMatchObject({ status: 'resolved', outcome: 'YES' });
+      expect(await connector.fetchOutcome('mc:x')).toMatchObject({ status: 'resolved', outcome: 'NO' });
+    });
+
+    it('should void cancelled and probabilistic resolutions', async () => {
+      get.mockResolvedValueOnce({ data: vendorMarket('a', { isResolved: true, resolution: 'MKT' }) });
+
+      expect(await connector.fetchOutcome('a')).toMatchObject({ status: 'voided' });
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MatchingService } from '../../src/exchanges/matching.service';
+
+const tx = {
+  marketItem: {
+    update: vi.fn(),
+  },
+  marketMatch: {
+    update: vi.fn((args: any) => ({ id: args.where.id, ...args.data })),
+    updateMany: vi.fn(),
+  },
+};
+
+const mockPrisma = {
+  executeTransaction: vi.fn((fn: any) => fn(tx)),
+  marketItem: {
+    findMany: vi.fn(),
+  },
+  marketMatch: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    createMany: vi.fn(),
+  },
+} as any;
+
+const mockRedis = {
+  del: vi.fn(),
+} as any;
+
+const mockConfig = {
+  get: vi.fn((_key: string, defaultValue: any) => defaultValue),
+} as any;
+
+const polymarket = { name: 'Polymarket', url: 'https://polymarket.com/market/pm1', oddsYes: 0.6, oddsNo: 0.4 };
+const kalshi = { name: 'Kalshi', url: 'https://kalshi.com/markets/k1', oddsYes: 0.55, oddsNo: 0.45 };
+
+const market = (id: string, source: string, question: string, endDate: string, extra: any = {}) => ({
+  id,
+  source,
+  question,
+  tags: ['crypto'],
+  endDate: new Date(endDate),
+  liquidity: 1000,
+  ...extra,
+});
+
+describe('MatchingService', () => {
+  let matchingService: MatchingService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    matchingService = new MatchingService(mockPrisma, mockRedis, mockConfig);
+  });
+
+  describe('normalizeQuestion', () => {
+    it('should reduce phrasing differences to the same tokens', () => {
+      const polymarketTokens = matchingService.normalizeQuestion('Will Bitcoin reach $100k by December 31?');
+      const kalshiTokens = matchingService.normalizeQuestion('Bitcoin to reach 100,000 before Dec 31st');
+
+      expect(polymarketTokens.sort()).toEqual(['100000', '31', 'bitcoin', 'dec', 'reach']);
+      expect(kalshiTokens.sort()).toEqual(polymarketTokens);
+    });
+
+    it('should keep decimals and percentages', () => {
+      expect(matchingService.normalizeQuestion('Fed cuts rates by 0.25%?')).toEqual(['fed', 'cut', 'rate', '0.25', 'percent']);
+    });
+  });
+
+  describe('scorePair', () => {
+    it('should score equivalent questions closing together highly', () => {
+      const score = matchingService.scorePair(
+        market('a', 'POLYMARKET', 'Will Bitcoin reach $100k by December 31?', '2025-12-31T00:00:00Z'),
+        market('b', 'KALSHI', 'Bitcoin to reach 100,000 before Dec 31st', '2025-12-31T12:00:00Z'),
+      );
+
+      expect(score!.questionScore).toBe(1);
+      expect(score!.dateScore).toBeCloseTo(0.833, 3);
+      expect(score!.tagScore).toBe(1);
+      expect(score!.score).toBeGreaterThan(0.9);
+    });
+
+    it('should not match markets closing outside the date window', () => {
+      const score = matchingService.scorePair(
+        market('a', 'POLYMARKET', 'Will Bitcoin reach $100k?', '2025-12-31T00:00:00Z'),
+        market('b', 'KALSHI', 'Will Bitcoin reach $100k?', '2026-01-10T00:00:00Z'),
+      );
+
+      expect(score).toBeNull();
+    });
+
+    it('should not match different questions', () => {
+      const score = matchingService.scorePair(
+        market('a', 'POLYMARKET', 'Will Bitcoin reach $100k?', '2025-12-31T00:00:00Z'),
+        market('b', 'KALSHI', 'Will Ethereum flip Bitcoin?', '2025-12-31T00:00:00Z'),
+      );
+
+      expect(score).toBeNull();
+    });
+
+    it('should treat missing tags as neutral', () => {
+      const score = matchingService.scorePair(
+        market('a', 'POLYMARKET', 'Will Bitcoin reach $100k?', '2025-12-31T00:00:00Z', { tags: [] }),
+        market('b', 'KALSHI', 'Will Bitcoin reach $100k?', '2025-12-31T00:00:00Z'),
+      );
+
+      expect(score!.tagScore).toBe(0.5);
+    });
+  });
+
+  describe('proposeMatches', () => {
+    it('should pair each market across sources at most once, keeping the deeper market as primary', () => {
+      const proposals = matchingService.proposeMatches([
+        market('pm1', 'POLYMARKET', 'Will Bitcoin reach $100k by December 31?', '2025-12-31T00:00:00Z', { liquidity: 500 }),
+        market('k1', 'KALSHI', 'Bitcoin to reach 100,000 before Dec 31st', '2025-12-31T00:00:00Z', { liquidity: 2000 }),
+        market('k2', 'KALSHI', 'Will Bitcoin reach $100k in 2025?', '2025-12-31T00:00:00Z'),
+        market('pm2', 'POLYMARKET', 'Will Bitcoin reach $100k in 2025?', '2025-12-31T00:00:00Z'),
+      ]);
+
+      expect(proposals.map(p => [p.primaryId, p.duplicateId])).toEqual(
+        expect.arrayContaining([['k1', 'pm1'], ['k2', 'pm2']]),
+      );
+      expect(proposals).toHaveLength(2);
+    });
+
+    it('should skip pairs from the same source and pairs already reviewed', () => {
+      const markets = [
+        market('pm1', 'POLYMARKET', 'Will Bitcoin reach $100k?', '2025-12-31T00:00:00Z'),
+        market('pm2', 'POLYMARKET', 'Will Bitcoin reach $100k?', '2025-12-31T00:00:00Z'),
+        market('k1', 'KALSHI', 'Will Bitcoin reach $100k?', '2025-12-31T00:00:00Z'),
+      ];
+
+      const proposals = matchingService.proposeMatches(markets, new Set(['k1:pm1', 'k1:pm2']));
+
+      expect(proposals).toEqual([]);
+    });
+  });
+
+  describe('mergeExchanges', () => {
+    it('should add the duplicate exchange with its current odds once', () => {
+      const merged = matchingService.mergeExchanges([polymarket, kalshi], {
+        exchanges: [kalshi],
+        yesPrice: 0.58,
+        noPrice: 0.42,
+      });
+
+      expect(merged).toEqual([polymarket, { ...kalshi, oddsYes: 0.58, oddsNo: 0.42 }]);
+    });
+  });
+
+  describe('confirmMatch', () => {
+    it('should merge exchanges into the primary and hide the duplicate', async () => {
+      mockPrisma.marketMatch.findUnique.mockResolvedValue({
+        id: 'match1',
+        primaryId: 'pm1',
+        duplicateId: 'k1',
+        status: 'PENDING',
+        primary: { exchanges: [polymarket] },
+        duplicate: { exchanges: [kalshi], yesPrice: 0.55, noPrice: 0.45 },
+      });
+      mockPrisma.marketMatch.findFirst.mockResolvedValue(null);
+
+      const result = await matchingService.confirmMatch('match1', 'admin1');
+
+      expect(result.status).toBe('CONFIRMED');
+      expect(tx.marketItem.update).toHaveBeenCalledWith({
+        where: { id: 'pm1' },
+        data: { exchanges: [polymarket, kalshi] },
+      });
+      expect(tx.marketItem.update).toHaveBeenCalledWith({
+        where: { id: 'k1' },
+        data: { eligible: false },
+      });
+      expect(mockRedis.del).toHaveBeenCalledWith('market:pm1');
+    });
+
+    it('should refuse to merge a market that is already merged elsewhere', async () => {
+      mockPrisma.marketMatch.findUnique.mockResolvedValue({
+        id: 'match2',
+        primaryId: 'pm1',
+        duplicateId: 'k2',
+        status: 'PENDING',
+        primary: { exchanges: [polymarket] },
+        duplicate: { exchanges: [kalshi], yesPrice: 0.55, noPrice: 0.45 },
+      });
+      mockPrisma.marketMatch.findFirst.mockResolvedValue({ id: 'match1' });
+
+      await expect(matchingService.confirmMatch('match2', 'admin1')).rejects.toThrow(
+        'Market is already merged with another market',
+      );
+      expect(tx.marketItem.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectMatch', () => {
+    it('should unmerge a confirmed match and restore the duplicate', async () => {
+      mockPrisma.marketMatch.findUnique.mockResolvedValue({
+        id: 'match1',
+        primaryId: 'pm1',
+        duplicateId: 'k1',
+        status: 'CONFIRMED',
+        primary: { exchanges: [polymarket, kalshi] },
+        duplicate: { exchanges: [kalshi] },
+      });
+
+      const result = await matchingService.rejectMatch('match1', 'admin1');
+
+      expect(result.status).toBe('REJECTED');
+      expect(tx.marketItem.update).toHaveBeenCalledWith({
+        where: { id: 'pm1' },
+        data: { exchanges: [polymarket] },
+      });
+      expect(tx.marketItem.update).toHaveBeenCalledWith({
+        where: { id: 'k1' },
+        data: { eligible: true },
+      });
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PolymarketConnector } from '../../src/connectors/polymarket.connector';
+
+const mockConfig = {
+  get: vi.fn((key: string, defaultValue?: any) => defaultValue),
+} as any;
+
+const mockRedis = {
+  get: vi.fn(),
+  set: vi.fn(),
+  del: vi.fn(),
+} as any;
+
+const vendorMarket = (id: string) => ({
+  id,
+  question: `Question ${id}?`,
+  outcome_prices: { Yes: 0.6, No: 0.4 },
+  volume: 1000,
+  liquidity: 500,
+  end_date_iso: '2030-01-01T00:00:00Z',
+  price_change_24h: 0.01,
+  tags: ['test'],
+  market_maker: 'mm',
+  description: 'desc',
+});
+
+describe('PolymarketConnector', () => {
+  let connector: PolymarketConnector;
+  let get: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRedis.get.mockResolvedValue(null);
+    connector = new PolymarketConnector(mockConfig, mockRedis);
+    get = vi.fn();
+    (connector as any).httpClient = { get };
+  });
+
+  describe('fetchMarkets', () => {
+    it('should follow cursors until the last page', async () => {
+      get
+        .mockResolvedValueOnce({ data: { markets: [vendorMarket('a'), vendorMarket('b')], cursor: 'c1' } })
+        .mockResolvedValueOnce({ data: { markets: [vendorMarket('c')], cursor: 'c2' } })
+        .mockResolvedValueOnce({ data: { markets: [vendorMarket('d')] } });
+
+      const { markets } = await connector.fetchMarkets({});
+
+      expect(markets.map(m => m.id)).toEqual(['a', 'b', 'c', 'd']);
+      expect(get).toHaveBeenCalledTimes(3);
+      expect(get.mock.calls[1][0]).toContain('cursor=c1');
+      expect(get.mock.calls[2][0]).toContain('cursor=c2');
+      expect(mockRedis.del).toHaveBeenCalledWith('connector:polymarket:cursor');
+    });
+
+    it('should stop at the page cap and checkpoint the next cursor', async () => {
+      connector.config.pagination.maxPages = 2;
+      get
+        .mockResolvedValueOnce({ data: { markets: [vendorMarket('a')], cursor: 'c1' } })
+        .mockResolvedValueOnce({ data: { markets: [vendorMarket('b')], cursor: 'c2' } });
+
+      const { markets } = await connector.fetchMarkets({});
+
+      expect(markets).toHaveLength(2);
+      expect(get).toHaveBeenCalledTimes(2);
+      expect(mockRedis.set).toHaveBeenCalledWith('connector:polymarket:cursor', 'c2', expect.any(Number));
+    });
+
+    it('should keep fetched pages and checkpoint the failing cursor when a page fails', async () => {
+      get
+        .mockResolvedValueOnce({ data: { markets: [vendorMarket('a')], cursor: 'c1' } })
+        .mockRejectedValueOnce(Object.assign(new Error('Server error'), { retryable: true }));
+
+      const { markets } = await connector.fetchMarkets({});
+
+      expect(markets.map(m => m.id)).toEqual(['a']);
+      expect(mockRedis.set).toHaveBeenCalledWith('connector:polymarket:cursor', 'c1', expect.any(Number));
+    });
+
+    it('should resume from a stored checkpoint', async () => {
+      mockRedis.get.mockResolvedValue('c5');
+      get.mockResolvedValueOnce({ data: { markets: [vendorMarket('z')] } });
+
+      await connector.fetchMarkets({});
+
+      expect(mockRedis.get).toHaveBeenCalledWith('connector:polymarket:cursor');
+      expect(get.mock.calls[0][0]).toContain('cursor=c5');
+    });
+
+    it('should hand back payloads that fail validation for quarantine', async () => {
+      const drifted = { ...vendorMarket('b'), outcome_prices: { Yes: '0.6', No: '0.4' } };
+      get.mockResolvedValueOnce({ data: { markets: [vendorMarket('a'), drifted] } });
+
+      const { markets, rejected } = await connector.fetchMarkets({});
+
+      expect(markets.map(m => m.id)).toEqual(['a']);
+      expect(rejected).toEqual([
+        expect.objectContaining({ externalId: 'b', payload: drifted, error: expect.stringContaining('outcome_prices.Yes') }),
+      ]);
+    });
+
+    it('should throw when the first page fails', async () => {
+      get.mockRejectedValueOnce(Object.assign(new Error('Network error'), { retryable: true }));
+
+      await expect(connector.fetchMarkets({})).rejects.toThrow('Network error');
+    });
+  });
+
+  describe('normalize', () => {
+    it('should carry the vendor description through for search', async () => {
+      get.mockResolvedValueOnce({ data: { markets: [vendorMarket('a')] } });
+
+      const { markets: [raw] } = await connector.fetchMarkets({});
+
+      expect(connector.normalize(raw).description).toBe('desc');
+    });
+  });
+
+  describe('categorical markets', () => {
+    const categoricalMarket = () => ({
+      ...vendorMarket('election'),
+      outcome_prices: { Alice: 0.25, Bob: 0.55, Carol: 0.2 },
+    });
+
+    it('should list outcomes and headline the leading one', async () => {
+      get.mockResolvedValueOnce({ data: { markets: [categoricalMarket()] } });
+
+      const { markets: [raw] } = await connector.fetchMarkets({});
+      const normalized = connector.normalize(raw);
+
+      expect(normalized.outcomes?.map(o => o.id)).toEqual(['Bob', 'Alice', 'Carol']);
+      expect(normalized.yesPrice).toBe(0.55);
+      expect(normalized.noPrice).toBeCloseTo(0.45);
+    });
+
+    it('should leave yes/no markets without outcomes', async () => {
+      get.mockResolvedValueOnce({ data: { markets: [vendorMarket('a')] } });
+
+      const { markets: [raw] } = await connector.fetchMarkets({});
+
+      expect(raw.outcomes).toBeUndefined();
+      expect(raw.yesPrice).toBe(0.6);
+    });
+
+    it('should report the winning outcome of a resolved categorical market', async () => {
+      get.mockResolvedValueOnce({
+        data: { ...categoricalMarket(), closed: true, resolved: true, winning_outcome: 'Bob' },
+      });
+
+      expect(await connector.fetchOutcome('election')).toMatchObject({
+        status: 'resolved',
+        winningOutcome: 'Bob',
+      });
+    });
+  });
+});
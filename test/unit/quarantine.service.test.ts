@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { QuarantineService } from '../../src/connectors/quarantine.service';
+
+const mockPrisma = {
+  quarantinedMarket: {
+    upsert: vi.fn(),
+    deleteMany: vi.fn(),
+    findMany: vi.fn(),
+    count: vi.fn(),
+  },
+} as any;
+
+describe('QuarantineService', () => {
+  let quarantineService: QuarantineService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    quarantineService = new QuarantineService(mockPrisma);
+  });
+
+  describe('quarantine', () => {
+    it('should keep one row per vendor market and count repeats', async () => {
+      const payload = { id: 'k1', yes_bid: 55 };
+
+      const count = await quarantineService.quarantine('kalshi', [
+        { externalId: 'k1', payload, error: 'yes_bid: Number must be less than or equal to 1' },
+      ]);
+
+      expect(count).toBe(1);
+      expect(mockPrisma.quarantinedMarket.upsert).toHaveBeenCalledWith({
+        where: { source_externalId: { source: 'KALSHI', externalId: 'k1' } },
+        update: expect.objectContaining({ payload, occurrences: { increment: 1 } }),
+        create: expect.objectContaining({ source: 'KALSHI', externalId: 'k1', payload }),
+      });
+    });
+
+    it('should key payloads without an id by their hash', async () => {
+      await quarantineService.quarantine('polymarket', [{ payload: { question: 'No id?' }, error: 'id: Required' }]);
+
+      const { externalId } = mockPrisma.quarantinedMarket.upsert.mock.calls[0][0].where.source_externalId;
+      expect(externalId).toMatch(/^[0-9a-f]{40}$/);
+    });
+
+    it('should skip the database when nothing was rejected', async () => {
+      expect(await quarantineService.quarantine('kalshi', [])).toBe(0);
+      expect(mockPrisma.quarantinedMarket.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listQuarantined', () => {
+    it('should filter by source', async () => {
+      mockPrisma.quarantinedMarket.findMany.mockResolvedValue([]);
+      mockPrisma.quarantinedMarket.count.mockResolvedValue(0);
+
+      await quarantineService.listQuarantined({ source: 'KALSHI', limit: 10 });
+
+      expect(mockPrisma.quarantinedMarket.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { source: 'KALSHI' }, take: 10 }),
+      );
+    });
+  });
+});
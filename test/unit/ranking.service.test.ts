@@ -20,6 +20,7 @@ const mockRedis = {
   zrange: vi.fn(),
   exists: vi.fn(),
   zcard: vi.fn(),
+  get: vi.fn(),
 } as any;
 
 const mockQueue = {
@@ -122,6 +123,35 @@ describe('RankingService', () => {
     });
   });
 
+  describe('getRankedSlice', () => {
+    it('should read the pinned snapshot at the requested offset', async () => {
+      mockRedis.exists.mockResolvedValue(1);
+      mockRedis.zrange.mockResolvedValue(['m4', 'm5']);
+
+      const slice = await rankingService.getRankedSlice('default', 3, 2, 'v1');
+
+      expect(mockRedis.zrange).toHaveBeenCalledWith('feed:ranked:default:v1', 3, 4);
+      expect(slice).toEqual({ version: 'v1', marketIds: ['m4', 'm5'], restarted: false });
+    });
+
+    it('should restart from the top of the current snapshot when the pinned one expired', async () => {
+      mockRedis.exists.mockResolvedValue(0);
+      mockRedis.get.mockResolvedValue('v2');
+      mockRedis.zrange.mockResolvedValue(['m1', 'm2']);
+
+      const slice = await rankingService.getRankedSlice('default', 3, 2, 'v1');
+
+      expect(mockRedis.zrange).toHaveBeenCalledWith('feed:ranked:default:v2', 0, 1);
+      expect(slice).toEqual({ version: 'v2', marketIds: ['m1', 'm2'], restarted: true });
+    });
+
+    it('should return null when the ranking cache is cold', async () => {
+      mockRedis.get.mockResolvedValue(null);
+
+      expect(await rankingService.getRankedSlice('default', 0, 2)).toBeNull();
+    });
+  });
+
   describe('triggerRankingRebuild', () => {
     it('should add ranking job to queue', async () => {
       await rankingService.triggerRankingRebuild('default', false);
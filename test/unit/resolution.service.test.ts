@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ResolutionService } from '../../src/resolution/resolution.service';
+
+const tx = {
+  payout: {
+    create: vi.fn(),
+  },
+  userStats: {
+    update: vi.fn(),
+  },
+};
+
+const mockPrisma = {
+  $transaction: vi.fn((fn: any) => fn(tx)),
+  marketItem: {
+    findMany: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  swipe: {
+    findMany: vi.fn(),
+  },
+  userStats: {
+    findMany: vi.fn(),
+    update: vi.fn(),
+  },
+} as any;
+
+const mockConnectors = {
+  getConnector: vi.fn(),
+  getCapabilities: vi.fn(),
+} as any;
+
+const mockQueue = {
+  add: vi.fn(),
+} as any;
+
+const resolvedMarket = (payoutUserIds: string[] = []) => ({
+  id: 'market1',
+  outcome: 'YES',
+  swipes: [
+    { userId: 'user1', direction: 'RIGHT' },
+    { userId: 'user2', direction: 'RIGHT' },
+  ],
+  payouts: payoutUserIds.map(userId => ({ userId })),
+});
+
+const expiredMarket = (id: string, source = 'KALSHI') => ({
+  id,
+  externalId: `ext-${id}`,
+  source,
+  outcome: null,
+});
+
+describe('ResolutionService', () => {
+  let resolutionService: ResolutionService;
+  let fetchOutcome: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fetchOutcome = vi.fn();
+    mockConnectors.getConnector.mockReturnValue({ fetchOutcome });
+    mockConnectors.getCapabilities.mockReturnValue({ outcomes: true });
+    resolutionService = new ResolutionService(mockPrisma, mockConnectors, mockQueue);
+  });
+
+  describe('processPayouts', () => {
+    it('should record a ledger entry and credit XP for each correct prediction', async () => {
+      mockPrisma.marketItem.findMany.mockResolvedValue([resolvedMarket()]);
+
+      const result = await resolutionService.processPayouts();
+
+      expect(result.processed).toBe(2);
+      expect(result.totalXP).toBe(100);
+      expect(tx.payout.create).toHaveBeenCalledWith({
+        data: { userId: 'user1', marketId: 'market1', amount: 50, reason: 'correct_prediction' },
+      });
+      expect(tx.userStats.update).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip users already paid for the market', async () => {
+      mockPrisma.marketItem.findMany.mockResolvedValue([resolvedMarket(['user1'])]);
+
+      const result = await resolutionService.processPayouts();
+
+      expect(result.processed).toBe(1);
+      expect(result.skipped).toBe(1);
+      expect(result.totalXP).toBe(50);
+      expect(tx.payout.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pay only swipes on the winning outcome of a categorical market', async () => {
+      mockPrisma.marketItem.findMany.mockResolvedValue([{
+        id: 'market1',
+        outcome: 'RESOLVED',
+        winningOutcome: 'Bob',
+        swipes: [
+          { userId: 'user1', direction: 'RIGHT', outcomeId: 'Bob' },
+          { userId: 'user2', direction: 'RIGHT', outcomeId: 'Alice' },
+        ],
+        payouts: [],
+      }]);
+
+      const result = await resolutionService.processPayouts();
+
+      expect(result.totalXP).toBe(50);
+      expect(result.results).toEqual([
+        expect.objectContaining({ userId: 'user1', correct: true }),
+        expect.objectContaining({ userId: 'user2', correct: false }),
+      ]);
+      expect(tx.payout.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat a ledger conflict as already paid', async () => {
+      mockPrisma.marketItem.findMany.mockResolvedValue([resolvedMarket()]);
+      tx.payout.create
+        .mockRejectedValueOnce(Object.assign(new Error('Unique constraint'), { code: 'P2002' }))
+        .mockResolvedValueOnce({});
+
+      const result = await resolutionService.processPayouts();
+
+      expect(result.skipped).toBe(1);
+      expect(result.totalXP).toBe(50);
+      expect(tx.userStats.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('checkOutcomes', () => {
+    it('should check the least recently checked markets first and mark them checked', async () => {
+      mockPrisma.marketItem.findMany.mockResolvedValue([expiredMarket('m1'), expiredMarket('m2')]);
+      fetchOutcome.mockResolvedValue({ status: 'pending' });
+
+      await resolutionService.checkOutcomes();
+
+      const query = mockPrisma.marketItem.findMany.mock.calls[0][0];
+      expect(query.orderBy).toEqual([
+        { lastOutcomeCheckAt: { sort: 'asc', nulls: 'first' } },
+        { endDate: 'asc' },
+      ]);
+      expect(mockPrisma.marketItem.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['m1', 'm2'] } },
+        data: { lastOutcomeCheckAt: expect.any(Date) },
+      });
+    });
+
+    it('should store resolved and voided outcomes and leave pending markets open', async () => {
+      mockPrisma.marketItem.findMany.mockResolvedValue([
+        expiredMarket('m1'),
+        expiredMarket('m2'),
+        expiredMarket('m3'),
+      ]);
+      const resolvedAt = new Date('2025-11-01T00:00:00Z');
+      fetchOutcome
+        .mockResolvedValueOnce({ status: 'resolved', outcome: 'NO', resolvedAt, source: 'rules' })
+        .mockResolvedValueOnce({ status: 'voided' })
+        .mockResolvedValueOnce({ status: 'pending' });
+
+      const result = await resolutionService.checkOutcomes();
+
+      expect(result).toMatchObject({ checked: 3, resolved: 2, errors: 0 });
+      expect(mockPrisma.marketItem.update).toHaveBeenCalledWith({
+        where: { id: 'm1' },
+        data: { outcome: 'NO', winningOutcome: undefined, resolvedAt, resolutionSource: 'rules' },
+      });
+      expect(mockPrisma.marketItem.update.mock.calls[1][0].data.outcome).toBe('VOID');
+      expect(result.results[2]).toEqual({ marketId: 'm3', outcome: 'UNKNOWN', resolved: false });
+    });
+
+    it('should count a market without a connector as an error and keep going', async () => {
+      mockPrisma.marketItem.findMany.mockResolvedValue([expiredMarket('m1', 'MANIFOLD'), expiredMarket('m2')]);
+      mockConnectors.getConnector.mockImplementation((name: string) =>
+        name === 'kalshi' ? { fetchOutcome } : undefined,
+      );
+      fetchOutcome.mockResolvedValue({ status: 'resolved', outcome: 'YES' });
+
+      const result = await resolutionService.checkOutcomes();
+
+      expect(result).toMatchObject({ checked: 2, resolved: 1, errors: 1 });
+      expect(result.results[0].error).toContain('No connector found');
+      expect(fetchOutcome).toHaveBeenCalledWith('ext-m2');
+    });
+
+    it('should recompute accuracy for swipers of markets that settled YES or NO', async () => {
+      mockPrisma.marketItem.findMany.mockResolvedValue([expiredMarket('m1'), expiredMarket('m2')]);
+      fetchOutcome
+        .mockResolvedValueOnce({ status: 'resolved', outcome: 'YES' })
+        .mockResolvedValueOnce({ status: 'voided' });
+      mockPrisma.swipe.findMany.mockResolvedValue([{ userId: 'user1' }]);
+      mockPrisma.userStats.findMany.mockResolvedValue([]);
+
+      await resolutionService.checkOutcomes();
+
+      expect(mockPrisma.swipe.findMany).toHaveBeenCalledWith({
+        where: { marketId: { in: ['m1'] } },
+        select: { userId: true },
+        distinct: ['userId'],
+      });
+      expect(mockPrisma.userStats.findMany).toHaveBeenCalledWith({
+        where: { userId: { in: ['user1'] } },
+        select: { userId: true },
+      });
+    });
+
+    it('should not touch check times when nothing is due', async () => {
+      mockPrisma.marketItem.findMany.mockResolvedValue([]);
+
+      const result = await resolutionService.checkOutcomes();
+
+      expect(result.checked).toBe(0);
+      expect(mockPrisma.marketItem.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recomputeAccuracy', () => {
+    beforeEach(() => {
+      mockPrisma.swipe.findMany.mockResolvedValue([]);
+    });
+
+    it('should score only swipes on settled markets', async () => {
+      const swipe = (direction: string, outcome: string) => ({
+        direction,
+        outcomeId: null,
+        yesPriceAtSwipe: null,
+        market: { outcome, winningOutcome: null },
+      });
+      mockPrisma.userStats.findMany.mockResolvedValue([{ userId: 'user1' }]);
+      mockPrisma.swipe.findMany.mockResolvedValue([
+        swipe('RIGHT', 'YES'),
+        swipe('LEFT', 'NO'),
+        swipe('RIGHT', 'NO'),
+        swipe('LEFT', 'NO'),
+      ]);
+
+      const result = await resolutionService.recomputeAccuracy(['user1']);
+
+      expect(result.updated).toBe(1);
+      // VOID and unresolved markets are never loaded
+      expect(mockPrisma.swipe.findMany.mock.calls[0][0].where).toEqual({
+        userId: 'user1',
+        market: { outcome: { in: ['YES', 'NO', 'RESOLVED'] } },
+      });
+      expect(mockPrisma.userStats.update).toHaveBeenCalledWith({
+        where: { userId: 'user1' },
+        data: expect.objectContaining({ resolvedPredictions: 4, correctPredictions: 3, accuracy: 0.75 }),
+      });
+    });
+
+    it('should store zero accuracy for users without resolved predictions', async () => {
+      mockPrisma.userStats.findMany.mockResolvedValue([{ userId: 'user1' }]);
+
+      await resolutionService.recomputeAccuracy();
+
+      expect(mockPrisma.userStats.findMany).toHaveBeenCalledWith({ where: undefined, select: { userId: true } });
+      expect(mockPrisma.userStats.update.mock.calls[0][0].data.accuracy).toBe(0);
+    });
+
+    it('should keep going when one user fails', async () => {
+      mockPrisma.userStats.findMany.mockResolvedValue([{ userId: 'user1' }, { userId: 'user2' }]);
+      mockPrisma.userStats.update
+        .mockRejectedValueOnce(new Error('write failed'))
+        .mockResolvedValueOnce({});
+
+      const result = await resolutionService.recomputeAccuracy();
+
+      expect(result.updated).toBe(1);
+    });
+  });
+
+  describe('calculateCalibration', () => {
+    it('should score calls against the market price at swipe time', () => {
+      const result = resolutionService.calculateCalibration([
+        { direction: 'RIGHT', yesPrice: 0.3, outcome: 'YES' },
+        { direction: 'LEFT', yesPrice: 0.6, outcome: 'YES' },
+      ]);
+
+      expect(result.calibratedPredictions).toBe(2);
+      expect(result.brierScore).toBeCloseTo(0.5);
+      expect(result.marketBrierScore).toBeCloseTo((0.49 + 0.16) / 2);
+      expect(result.edge).toBeCloseTo((0.7 - 0.4) / 2);
+    });
+
+    it('should return null scores without calibrated swipes', () => {
+      const result = resolutionService.calculateCalibration([]);
+
+      expect(result).toEqual({
+        calibratedPredictions: 0,
+        brierScore: null,
+        marketBrierScore: null,
+        edge: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SwipesService } from '../../src/swipes/swipes.service';
+
+const mockPrisma = {
+  swipe: {
+    findMany: vi.fn(),
+  },
+} as any;
+
+const mockRedis = {
+  exists: vi.fn(),
+  smembers: vi.fn(),
+  sadd: vi.fn(),
+  expire: vi.fn(),
+} as any;
+
+describe('SwipesService', () => {
+  let swipesService: SwipesService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRedis.exists.mockResolvedValue(0);
+    swipesService = new SwipesService(mockPrisma, mockRedis);
+  });
+
+  describe('getSwipedMarketIds', () => {
+    it('should serve a warm set from Redis', async () => {
+      mockRedis.exists.mockResolvedValue(1);
+      mockRedis.smembers.mockResolvedValue(['market1']);
+
+      expect(await swipesService.getSwipedMarketIds('user1')).toEqual(['market1']);
+      expect(mockPrisma.swipe.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should rebuild the set from swipes on active markets only', async () => {
+      mockPrisma.swipe.findMany
+        .mockResolvedValueOnce([{ marketId: 'market1' }, { marketId: 'market2' }])
+        .mockResolvedValueOnce([{ marketId: 'market2' }]);
+
+      const marketIds = await swipesService.getSwipedMarketIds('user1');
+
+      expect(marketIds).toEqual(['market1', 'market2']);
+      expect(mockPrisma.swipe.findMany.mock.calls[0][0].where).toEqual({
+        userId: 'user1',
+        market: { endDate: { gt: expect.any(Date) } },
+      });
+      expect(mockRedis.sadd).toHaveBeenCalledTimes(1);
+      expect(mockRedis.sadd).toHaveBeenCalledWith('user:user1:swiped', 'market1', 'market2');
+    });
+
+    it('should add swipes that landed while the set was being rebuilt', async () => {
+      mockPrisma.swipe.findMany
+        .mockResolvedValueOnce([{ marketId: 'market1' }])
+        .mockResolvedValueOnce([{ marketId: 'market1' }, { marketId: 'market3' }]);
+
+      const marketIds = await swipesService.getSwipedMarketIds('user1');
+
+      expect(marketIds).toEqual(['market1', 'market3']);
+      expect(mockRedis.sadd).toHaveBeenLastCalledWith('user:user1:swiped', 'market3');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UsersService } from '../../src/users/users.service';
+
+const mockPrisma = {
+  userStats: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    count: vi.fn(),
+  },
+} as any;
+
+const mockRedis = {
+  get: vi.fn(),
+  set: vi.fn(),
+} as any;
+
+const mockConfig = {
+  get: vi.fn((key: string, defaultValue?: any) => (key === 'ACCURACY_MIN_PREDICTIONS' ? '5' : defaultValue)),
+} as any;
+
+const stats = (resolvedPredictions: number) => ({
+  userId: 'user1',
+  xp: 100,
+  bestStreak: 3,
+  accuracy: 0.8,
+  resolvedPredictions,
+});
+
+describe('UsersService', () => {
+  let usersService: UsersService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.userStats.count.mockResolvedValue(2);
+    usersService = new UsersService(mockPrisma, mockRedis, mockConfig);
+  });
+
+  describe('getUserLeaderboardPosition', () => {
+    it('should rank accuracy only against users past the threshold', async () => {
+      mockPrisma.userStats.findUnique.mockResolvedValue(stats(5));
+
+      const position = await usersService.getUserLeaderboardPosition('user1');
+
+      expect(position.accuracyRank).toBe(3);
+      expect(mockPrisma.userStats.count).toHaveBeenCalledWith({
+        where: { accuracy: { gt: 0.8 }, resolvedPredictions: { gte: 5 } },
+      });
+    });
+
+    it('should leave accuracy unranked below ACCURACY_MIN_PREDICTIONS', async () => {
+      mockPrisma.userStats.findUnique.mockResolvedValue(stats(4));
+
+      const position = await usersService.getUserLeaderboardPosition('user1');
+
+      expect(position.accuracyRank).toBeNull();
+      expect(position.xpRank).toBe(3);
+    });
+  });
+
+  describe('getLeaderboard', () => {
+    it('should only list users past the threshold on the accuracy board', async () => {
+      mockPrisma.userStats.findMany.mockResolvedValue([]);
+
+      await usersService.getLeaderboard('accuracy', 10);
+
+      expect(mockPrisma.userStats.findMany.mock.calls[0][0].where).toEqual({
+        resolvedPredictions: { gte: 5 },
+      });
+    });
+  });
+});